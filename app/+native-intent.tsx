@@ -0,0 +1,15 @@
+import { parseDeepLink, toPath } from '../services/deepLinks';
+
+/**
+ * Rewrite incoming `myapp://` and website links to app routes before expo-router handles them.
+ * Links the app doesn't understand open the job list instead of the not found screen.
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  try {
+    const route = parseDeepLink(path);
+    return route ? toPath(route) : '/';
+  } catch (error) {
+    console.error('Error handling link:', path, error);
+    return '/';
+  }
+}
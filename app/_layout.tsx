@@ -5,9 +5,16 @@ import { useColorScheme, Platform } from 'react-native';
 import * as SplashScreen from 'expo-splash-screen';
 import { Colors } from '../constants/Colors';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { JobsProvider } from '../contexts/JobsContext';
 import mobileAds, { MaxAdContentRating, TestIds } from 'react-native-google-mobile-ads';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import { loadEnvironmentOverride } from '../services/config';
+import { loadJobFixturesSetting } from '../services/jobFixtures';
+import { registerBackgroundSync } from '../services/backgroundSync';
+import { registerNotificationPolicyTask } from '../services/notificationPolicy';
+import { startPushTokenManager } from '../services/pushTokens';
+import { useNotificationRouting } from '../hooks/useNotificationRouting';
 
 // Enhanced AdMob initialization with better error handling and logging
 const initializeAdMob = async () => {
@@ -65,6 +72,26 @@ export default function RootLayout() {
   const [fontsLoaded, fontError] = useFonts({
     'SpaceMono': require('../assets/fonts/SpaceMono-Regular.ttf'),
   });
+  const [isEnvironmentLoaded, setIsEnvironmentLoaded] = useState(false);
+
+  // Open the screen a tapped notification points to, once navigation is ready
+  useNotificationRouting();
+
+  // Restore the API environment override and fixture toggle before any data is fetched
+  useEffect(() => {
+    Promise.all([loadEnvironmentOverride(), loadJobFixturesSetting()])
+      .finally(() => setIsEnvironmentLoaded(true));
+  }, []);
+
+  // Keep the periodic background job sync scheduled with the user's settings,
+  // and let job pushes that arrive in the background respect quiet hours
+  useEffect(() => {
+    registerBackgroundSync();
+    registerNotificationPolicyTask();
+  }, []);
+
+  // Re-register the push token when it rotates, permission changes or a failed registration can be retried
+  useEffect(() => startPushTokenManager(), []);
 
   // Ensure AdMob is properly initialized
   useEffect(() => {
@@ -78,19 +105,21 @@ export default function RootLayout() {
     });
   }, []);
 
-  if (!fontsLoaded && !fontError) {
+  if ((!fontsLoaded && !fontError) || !isEnvironmentLoaded) {
     return null;
   }
 
   return (
-    <SafeAreaProvider>
-      <StatusBar
-        barStyle={colorScheme === 'dark' ? 'light-content' : 'dark-content'}
-        backgroundColor={colorScheme === 'dark' ? themeColors.background : '#4F46E5'}
-      />
-      <JobsProvider>
-        <Slot />
-      </JobsProvider>
-    </SafeAreaProvider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <SafeAreaProvider>
+        <StatusBar
+          barStyle={colorScheme === 'dark' ? 'light-content' : 'dark-content'}
+          backgroundColor={colorScheme === 'dark' ? themeColors.background : '#4F46E5'}
+        />
+        <JobsProvider>
+          <Slot />
+        </JobsProvider>
+      </SafeAreaProvider>
+    </GestureHandlerRootView>
   );
 }
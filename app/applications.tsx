@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Platform,
+  Alert,
+  KeyboardAvoidingView,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services and hooks
+import {
+  APPLICATION_STATUSES,
+  ApplicationStatus,
+  TrackedApplication,
+  deleteApplication,
+  updateApplicationNotes,
+  updateApplicationStatus,
+} from '../services/applications';
+import { useApplications } from '../hooks/useApplications';
+
+const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  applied: 'Applied',
+  viewed: 'Viewed',
+  interviewing: 'Interviewing',
+  offer: 'Offer',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+const STATUS_COLORS: Record<ApplicationStatus, string> = {
+  applied: '#6366F1',
+  viewed: '#0EA5E9',
+  interviewing: '#F59E0B',
+  offer: '#10B981',
+  rejected: '#FF4D4F',
+  withdrawn: '#9CA3AF',
+};
+
+// Format an application date for display
+const formatDate = (value: string): string => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+function ApplicationCard({ application }: { application: TrackedApplication }) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [notes, setNotes] = useState(application.notes);
+  const statusColor = STATUS_COLORS[application.status];
+
+  const handleStatusChange = (status: ApplicationStatus) => {
+    if (status === application.status) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    updateApplicationStatus(application.id, status).catch(() => {
+      Alert.alert('Error', 'Failed to update the status. Please try again.');
+    });
+  };
+
+  const handleSaveNotes = () => {
+    if (notes === application.notes) return;
+
+    updateApplicationNotes(application.id, notes.trim()).catch(() => {
+      Alert.alert('Error', 'Failed to save your notes. Please try again.');
+    });
+  };
+
+  const handleDelete = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'Stop tracking?',
+      'This removes the application from your list. It does not withdraw it with the employer.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            deleteApplication(application.id).catch(() => {
+              Alert.alert('Error', 'Failed to remove the application. Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#FFFFFF' }]}>
+      <TouchableOpacity
+        style={styles.cardHeader}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setIsExpanded(!isExpanded);
+        }}
+      >
+        <View style={styles.cardInfo}>
+          <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>
+            {application.jobTitle || 'Job application'}
+          </Text>
+          {application.company ? (
+            <Text style={[styles.cardCompany, { color: colors.icon }]} numberOfLines={1}>{application.company}</Text>
+          ) : null}
+          <Text style={[styles.cardMeta, { color: colors.icon }]}>
+            Applied {formatDate(application.appliedAt)}
+            {application.status !== 'applied' ? ` • Updated ${formatDate(application.statusUpdatedAt)}` : ''}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+          <Text style={styles.statusBadgeText}>{STATUS_LABELS[application.status]}</Text>
+        </View>
+      </TouchableOpacity>
+
+      {isExpanded ? (
+        <View style={styles.cardDetails}>
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Status</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.statusOptions}>
+            {APPLICATION_STATUSES.map(status => {
+              const isSelected = status === application.status;
+              return (
+                <TouchableOpacity
+                  key={status}
+                  style={[
+                    styles.statusOption,
+                    {
+                      borderColor: STATUS_COLORS[status],
+                      backgroundColor: isSelected ? STATUS_COLORS[status] : 'transparent',
+                    },
+                  ]}
+                  onPress={() => handleStatusChange(status)}
+                >
+                  <Text style={[styles.statusOptionText, { color: isSelected ? '#FFFFFF' : STATUS_COLORS[status] }]}>
+                    {STATUS_LABELS[status]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <Text style={[styles.sectionLabel, { color: colors.text }]}>Notes</Text>
+          <TextInput
+            style={[
+              styles.notesInput,
+              {
+                backgroundColor: colorScheme === 'dark' ? '#1F2937' : '#F3F4F6',
+                color: colors.text,
+              },
+            ]}
+            placeholder="Interview dates, contacts, follow-ups..."
+            placeholderTextColor={colorScheme === 'dark' ? '#9BA1A6' : '#9CA3AF'}
+            value={notes}
+            onChangeText={setNotes}
+            onEndEditing={handleSaveNotes}
+            multiline
+          />
+
+          <View style={styles.cardActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push({
+                  pathname: '/jobs/[id]',
+                  params: { id: application.jobId },
+                });
+              }}
+            >
+              <FontAwesome5 name="external-link-alt" size={12} color={colors.tint} />
+              <Text style={[styles.actionText, { color: colors.tint }]}>View Job</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleDelete}>
+              <FontAwesome5 name="trash-alt" size={12} color={colors.icon} />
+              <Text style={[styles.actionText, { color: colors.icon }]}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+export default function ApplicationsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { applications } = useApplications();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>My Applications</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {applications.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="briefcase" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>No applications yet</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Jobs you apply for will appear here so you can track their progress
+          </Text>
+        </View>
+      ) : (
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.container}
+        >
+          <FlatList
+            data={applications}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={({ item }) => <ApplicationCard application={item} />}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          />
+        </KeyboardAvoidingView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cardCompany: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  statusBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cardDetails: {
+    marginTop: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(150, 150, 150, 0.2)',
+    paddingTop: 12,
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  statusOptions: {
+    paddingBottom: 12,
+  },
+  statusOption: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  statusOptionText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  notesInput: {
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
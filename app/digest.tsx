@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services
+import { HeldNotification, getDigestNotifications } from '../services/notificationPolicy';
+import { getNotificationRoute, toHref } from '../services/deepLinks';
+
+const formatReceivedAt = (receivedAt: number): string =>
+  new Date(receivedAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+export default function DigestScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { deliverAt } = useLocalSearchParams<{ deliverAt: string }>();
+
+  const [notifications, setNotifications] = useState<HeldNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getDigestNotifications(Number(deliverAt))
+      .then(setNotifications)
+      .catch(() => setNotifications([]))
+      .finally(() => setIsLoading(false));
+  }, [deliverAt]);
+
+  const handleOpen = (notification: HeldNotification) => {
+    const route = getNotificationRoute(notification.data);
+    if (!route) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push(toHref(route));
+  };
+
+  const renderNotification = ({ item }: { item: HeldNotification }) => (
+    <TouchableOpacity
+      style={[styles.card, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#FFFFFF' }]}
+      onPress={() => handleOpen(item)}
+    >
+      <View style={styles.cardInfo}>
+        <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={2}>{item.body}</Text>
+        <Text style={[styles.cardMeta, { color: colors.icon }]} numberOfLines={1}>
+          {item.title} • {formatReceivedAt(item.receivedAt)}
+        </Text>
+      </View>
+      <FontAwesome5 name="chevron-right" size={14} color={colors.icon} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            if (router.canGoBack()) {
+              router.back();
+            } else {
+              router.replace('/');
+            }
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {notifications.length > 0 ? `${notifications.length} New ${notifications.length === 1 ? 'Job' : 'Jobs'}` : 'Job Digest'}
+        </Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centeredContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : notifications.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="inbox" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>This digest is no longer available</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Digests are kept for a week after they are sent
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={notifications}
+          keyExtractor={(item) => item.id}
+          renderItem={renderNotification}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
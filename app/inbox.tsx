@@ -0,0 +1,257 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+
+// Import services
+import {
+  InboxNotification,
+  markAllInboxNotificationsRead,
+  markInboxNotificationRead,
+  removeInboxNotification,
+} from '../services/notificationInbox';
+import { getNotificationRoute, toHref } from '../services/deepLinks';
+import { useNotificationInbox } from '../hooks/useNotificationInbox';
+
+// Icon for each kind of notification the backend and the app send
+const NOTIFICATION_ICONS: Record<string, string> = {
+  new_job: 'briefcase',
+  saved_search: 'search',
+  digest: 'layer-group',
+};
+
+// Format when a notification was received
+const formatReceivedDate = (receivedAt: string): string => {
+  const date = new Date(receivedAt);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+export default function InboxScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { notifications, isLoading, unreadCount } = useNotificationInbox();
+
+  const handleOpen = (notification: InboxNotification) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    markInboxNotificationRead(notification.id).catch(() => {});
+
+    const route = getNotificationRoute(notification.data);
+    if (route) router.push(toHref(route));
+  };
+
+  const handleDismiss = (notification: InboxNotification) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    removeInboxNotification(notification.id).catch(() => {});
+  };
+
+  const renderDismissAction = () => (
+    <View style={styles.dismissAction}>
+      <FontAwesome5 name="trash" size={16} color="#FFFFFF" />
+    </View>
+  );
+
+  const renderNotification = ({ item }: { item: InboxNotification }) => {
+    const isUnread = !item.readAt;
+    const icon = NOTIFICATION_ICONS[String(item.data.type)] ?? 'bell';
+
+    return (
+      <Swipeable
+        friction={2}
+        rightThreshold={80}
+        overshootRight={false}
+        renderRightActions={renderDismissAction}
+        onSwipeableOpen={() => handleDismiss(item)}
+        containerStyle={styles.swipeable}
+      >
+        <TouchableOpacity
+          style={[styles.card, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#FFFFFF' }]}
+          onPress={() => handleOpen(item)}
+        >
+          <View style={[styles.cardIcon, { backgroundColor: colorScheme === 'dark' ? '#1F2937' : '#EEF2FF' }]}>
+            <FontAwesome5 name={icon} size={14} color={colors.tint} />
+          </View>
+          <View style={styles.cardInfo}>
+            <Text
+              style={[styles.cardTitle, { color: colors.text, fontWeight: isUnread ? 'bold' : '500' }]}
+              numberOfLines={1}
+            >
+              {item.title || 'Job Finder'}
+            </Text>
+            {!!item.body && (
+              <Text style={[styles.cardBody, { color: colors.text }]} numberOfLines={2}>{item.body}</Text>
+            )}
+            <Text style={[styles.cardMeta, { color: colors.icon }]}>{formatReceivedDate(item.receivedAt)}</Text>
+          </View>
+          {isUnread && <View style={[styles.unreadDot, { backgroundColor: colors.tint }]} />}
+        </TouchableOpacity>
+      </Swipeable>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Notifications</Text>
+        <View style={{ width: 40 }}>
+          {unreadCount > 0 && (
+            <TouchableOpacity
+              style={styles.backButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                markAllInboxNotificationsRead().catch(() => {});
+              }}
+            >
+              <FontAwesome5 name="check-double" size={16} color={colors.tint} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centeredContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : notifications.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="bell-slash" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>No notifications yet</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Job alerts you receive will be kept here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={notifications}
+          keyExtractor={(item) => item.id}
+          renderItem={renderNotification}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListFooterComponent={
+            <Text style={[styles.footnote, { color: colors.icon }]}>Swipe left to remove a notification</Text>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  swipeable: {
+    marginBottom: 12,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+  },
+  cardIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+  },
+  cardBody: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  cardMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  dismissAction: {
+    width: 88,
+    backgroundColor: '#EF4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  footnote: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
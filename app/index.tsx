@@ -1,4 +1,5 @@
-import { registerForPushNotificationsAsync, handleNotification } from '../services/notification';
+import { registerForPushNotificationsAsync } from '../services/notification';
+import { getNotificationBehavior } from '../services/notificationPolicy';
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { AppOpenAd, AdEventType, BannerAd, BannerAdSize, TestIds, AdsConsent, AdsConsentStatus } from 'react-native-google-mobile-ads';
 import {
@@ -12,26 +13,38 @@ import {
   Platform,
   ScrollView,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { FontAwesome5 } from '@expo/vector-icons';
 import { useColorScheme } from 'react-native';
 import { Colors } from '../constants/Colors';
 import * as Haptics from 'expo-haptics';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import { useFocusEffect } from 'expo-router';
 import * as SplashScreen from 'expo-splash-screen';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Notifications from 'expo-notifications';
 // Import services and context
 import { Job } from '../services/api';
-import { useJobs } from '../contexts/JobsContext';
+import { loadMoreJobs, refreshJobs } from '../services/jobStore';
+import { useFilteredJobs, useJobsState } from '../hooks/useJobs';
+import { canSwitchEnvironment } from '../services/config';
+import { searchJobs } from '../services/database';
+import { hasActiveFilters, matchesSearchQuery, toggleFilterValue, POSTED_WITHIN_OPTIONS, WORKPLACE_OPTIONS } from '../services/jobFilters';
+import { formatAnnualAmount } from '../services/salary';
+import { Coordinates, DEFAULT_JOB_SORT, JobSort, SORT_OPTIONS, loadJobSort, saveJobSort, sortJobs } from '../services/jobSort';
+import { geocodeJobLocations, getCurrentCoordinates } from '../services/location';
+import { createSavedSearch, getDefaultSearchName, getSavedSearchById, markSavedSearchSeen } from '../services/savedSearches';
 import { incrementAppOpenCount, shouldShowRatingPrompt, markAppAsRated, markRatingPostponed } from '../services/appRating';
 import adHelpers from '../services/adHelpers';
+import { useOutbox } from '../hooks/useOutbox';
+import { useNotificationInbox } from '../hooks/useNotificationInbox';
 
 // Import components
 import { JobCard } from '../components/JobCard';
 import { FilterSheet, FilterOptions } from '../components/FilterSheet';
+import { SortSheet } from '../components/SortSheet';
 import RatingPrompt from '../components/RatingPrompt';
 
 // Use test ads in development, real ads in production
@@ -169,35 +182,47 @@ const BannerAdComponent = () => {
 // Make sure splash screen doesn't auto hide
 SplashScreen.preventAutoHideAsync();
 
+// Job pushes arriving during quiet hours or in digest mode are held back
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-  }),
+  handleNotification: getNotificationBehavior,
 });
 
 const JobsScreen = () => {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   
-  // Use the jobs context
-  const { jobs, categories, isLoading, error, refreshJobs, isRefreshing, isOffline } = useJobs();
+  // Read the job store
+  const { pendingCount: pendingApplications, failedCount: failedApplications } = useOutbox();
+  const { unreadCount: unreadNotifications } = useNotificationInbox();
+  const {
+    jobs,
+    categories,
+    isLoading,
+    error,
+    isRefreshing,
+    isOffline,
+    hasMore,
+    isLoadingMore,
+  } = useJobsState();
+  // Set when opening a saved search from its screen or an alert
+  const { savedSearchId } = useLocalSearchParams<{ savedSearchId?: string }>();
   
   // Local state variables
   const [filteredJobs, setFilteredJobs] = useState<Job[]>([]);
   const [filters, setFilters] = useState<FilterOptions>({});
   const [isFilterSheetVisible, setIsFilterSheetVisible] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<JobSort>(DEFAULT_JOB_SORT);
+  const [isSortSheetVisible, setIsSortSheetVisible] = useState(false);
+  // User position and a counter bumped when new job coordinates arrive, for the distance sort
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [geocodeVersion, setGeocodeVersion] = useState(0);
   
   // Rating prompt state
   const [showRatingPrompt, setShowRatingPrompt] = useState(false);
   
   // Notification state
   const [expoPushToken, setExpoPushToken] = useState<string>('');
-  const [notification, setNotification] = useState<Notifications.Notification | null>(null);
-  const notificationListener = useRef<Notifications.Subscription>();
-  const responseListener = useRef<Notifications.Subscription>();
   
   // Reference to track if this is the first load
   const isFirstLoad = useRef(true);
@@ -298,57 +323,51 @@ const JobsScreen = () => {
         console.log('Error getting push token:', error);
       });
 
-    // Set up notification listeners
-    notificationListener.current = Notifications.addNotificationReceivedListener(notification => {
-      setNotification(notification);
-      handleNotification(notification);
-    });
+    // Received notifications are kept by the inbox, and taps are handled by
+    // useNotificationRouting in the root layout
+  }, []);
 
-    responseListener.current = Notifications.addNotificationResponseReceivedListener(response => {
-      console.log('Notification tapped:', response);
-      
-      // Extract notification data
-      const data = response.notification.request.content.data;
-      
-      // Check if this is a job notification with the required data
-      if (data && typeof data === 'object') {
-        // Handle new job notifications
-        if (data.type === 'new_job' && data.jobId) {
-          console.log(`User tapped on new job notification for job ID: ${data.jobId}`);
-          
-          // If the notification specifies to go to the apply screen
-          if (data.screen === 'jobApply') {
-            // Navigate directly to the job application screen
-            router.push({
-              pathname: "/jobs/[id]/apply",
-              params: { 
-                id: data.jobId,
-                companyName: data.companyName || '',
-                jobTitle: data.jobTitle || '',
-                location: data.location || ''
-              }
-            });
-          } else {
-            // Default to job details screen if no specific screen is specified
-            router.push({
-              pathname: "/jobs/[id]",
-              params: { id: data.jobId }
-            });
-          }
+  // Apply a saved search opened from the saved searches screen or an alert
+  useEffect(() => {
+    if (!savedSearchId) return;
+    
+    const openSavedSearch = async () => {
+      try {
+        const search = await getSavedSearchById(Number(savedSearchId));
+        if (search) {
+          setSearchQuery(search.query);
+          setFilters(search.filters);
+          await markSavedSearchSeen(search.id);
         }
-      }
-    });
-
-    // Clean up listeners on unmount
-    return () => {
-      if (notificationListener.current) {
-        notificationListener.current.remove();
-      }
-      if (responseListener.current) {
-        responseListener.current.remove();
+      } catch (error) {
+        console.error('Error opening saved search:', error);
+      } finally {
+        router.setParams({ savedSearchId: undefined });
       }
     };
-  }, []);
+    
+    openSavedSearch();
+  }, [savedSearchId]);
+
+  // Save the current search and filters to get alerts for new matches
+  const handleSaveSearch = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    
+    try {
+      const search = await createSavedSearch(getDefaultSearchName(searchQuery), searchQuery, filters);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      Alert.alert(
+        'Search saved',
+        `We'll let you know when new jobs match ${search.name}.`,
+        [
+          { text: 'Manage', onPress: () => router.push('/saved-searches') },
+          { text: 'OK' },
+        ]
+      );
+    } catch {
+      Alert.alert('Error', 'Failed to save this search. Please try again.');
+    }
+  };
 
   // Handle rating prompt actions
   const handleRateNow = () => {
@@ -365,7 +384,7 @@ const JobsScreen = () => {
   useFocusEffect(
     useCallback(() => {
       if (isFirstLoad.current) {
-        // We don't need to do anything on first load, as data is loaded by JobsContext
+        // We don't need to do anything on first load, as data is loaded by JobsProvider
       } else {
         // On subsequent focuses, we can refresh if needed
         // You can decide whether to refresh here or not
@@ -385,41 +404,88 @@ const JobsScreen = () => {
     hideSplash();
   }, [isLoading]);
 
-  // Filter jobs based on search query and filters
+  // Restore the sort picked last time
   useEffect(() => {
-    if (jobs.length === 0) return;
+    loadJobSort().then(setSort);
+  }, []);
+  
+  // Distance sorting needs the user's position and coordinates for cached job locations
+  useEffect(() => {
+    if (sort !== 'distance') return;
     
-    let result = [...jobs];
+    let isCancelled = false;
     
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(job => 
-        job.title.toLowerCase().includes(query) || 
-        job.company.toString().toLowerCase().includes(query) ||
-        job.location.toLowerCase().includes(query)
-      );
-    }
+    const prepareDistanceSort = async () => {
+      const coordinates = await getCurrentCoordinates();
+      if (isCancelled) return;
+      
+      if (!coordinates) {
+        Alert.alert(
+          'Location unavailable',
+          'Allow location access in Settings to sort jobs by distance.'
+        );
+        setSort(DEFAULT_JOB_SORT);
+        saveJobSort(DEFAULT_JOB_SORT);
+        return;
+      }
+      
+      setOrigin(coordinates);
+      
+      try {
+        const geocoded = await geocodeJobLocations();
+        if (!isCancelled && geocoded > 0) {
+          setGeocodeVersion(version => version + 1);
+        }
+      } catch (error) {
+        console.error('Error geocoding job locations:', error);
+      }
+    };
     
-    // Apply filters
-    if (filters.category && typeof filters.category === 'string') {
-      result = result.filter(job => job.category === filters.category);
-    }
+    prepareDistanceSort();
     
-    if (filters.location) {
-      result = result.filter(job => job.location === filters.location);
-    }
+    return () => {
+      isCancelled = true;
+    };
+  }, [sort, jobs.length]);
+  
+  // Loaded jobs matching the filters, used when the database search fails
+  const loadedMatches = useFilteredJobs(filters);
+
+  // Filter and sort jobs based on search query, filters and the chosen sort
+  useEffect(() => {
+    if (jobs.length === 0) return;
     
-    if (filters.type) {
-      result = result.filter(job => job.type === filters.type);
-    }
+    const sortContext = { query: searchQuery, origin };
     
-    if (filters.featured) {
-      result = result.filter(job => job.featured);
+    // Without a query, filters or a custom sort, the loaded jobs are shown in their original order
+    if (!searchQuery.trim() && !hasActiveFilters(filters) && sort === DEFAULT_JOB_SORT) {
+      setFilteredJobs(sortJobs(jobs, sort, sortContext));
+      return;
     }
     
-    setFilteredJobs(result);
-  }, [jobs, searchQuery, filters]);
+    let isCancelled = false;
+    
+    // Debounce typing, then search the whole cache through SQLite (full-text index when there is a query)
+    const searchTimeout = setTimeout(async () => {
+      try {
+        const results = await searchJobs(searchQuery, filters, { sort, origin });
+        if (!isCancelled) {
+          setFilteredJobs(results);
+        }
+      } catch (error) {
+        console.error('Full-text search failed, falling back to in-memory search:', error);
+        if (!isCancelled) {
+          const matches = loadedMatches.filter(job => matchesSearchQuery(job, searchQuery));
+          setFilteredJobs(sortJobs(matches, sort, sortContext));
+        }
+      }
+    }, 250);
+    
+    return () => {
+      isCancelled = true;
+      clearTimeout(searchTimeout);
+    };
+  }, [jobs, loadedMatches, searchQuery, filters, sort, origin, geocodeVersion]);
 
   // Handle job card press
   const handleJobPress = (job: Job) => {
@@ -430,6 +496,12 @@ const JobsScreen = () => {
     });
   };
 
+  // Handle sort selection
+  const handleSelectSort = (newSort: JobSort) => {
+    setSort(newSort);
+    saveJobSort(newSort);
+  };
+
   // Handle apply filters
   const handleApplyFilters = (newFilters: FilterOptions) => {
     setFilters(newFilters);
@@ -459,8 +531,61 @@ const JobsScreen = () => {
         ]}
       >
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>JobFinder</Text>
+          <TouchableOpacity
+            activeOpacity={1}
+            delayLongPress={800}
+            onLongPress={() => {
+              // Hidden entry point for QA to switch API environments
+              if (canSwitchEnvironment()) {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+                router.push('/settings/environment');
+              }
+            }}
+          >
+            <Text style={styles.headerTitle}>JobFinder</Text>
+          </TouchableOpacity>
           <View style={styles.headerRight}>
+            <TouchableOpacity 
+              style={styles.iconButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/inbox');
+              }}
+            >
+              <FontAwesome5 name="bell" size={18} color={colorScheme === 'dark' ? colors.text : "#fff"} />
+              {unreadNotifications > 0 && (
+                <View style={styles.iconBadge}>
+                  <Text style={styles.iconBadgeText}>{unreadNotifications > 99 ? '99+' : unreadNotifications}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.iconButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/applications');
+              }}
+            >
+              <FontAwesome5 name="briefcase" size={18} color={colorScheme === 'dark' ? colors.text : "#fff"} />
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.iconButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/profile');
+              }}
+            >
+              <FontAwesome5 name="user" size={18} color={colorScheme === 'dark' ? colors.text : "#fff"} />
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.iconButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/saved');
+              }}
+            >
+              <FontAwesome5 name="bookmark" size={18} color={colorScheme === 'dark' ? colors.text : "#fff"} />
+            </TouchableOpacity>
             <TouchableOpacity 
               style={styles.iconButton}
               onPress={() => {
@@ -506,11 +631,68 @@ const JobsScreen = () => {
     );
   };
 
+  // Render a reminder about applications still waiting in the outbox
+  const renderOutboxBanner = () => {
+    if (pendingApplications === 0 && failedApplications === 0) return null;
+    
+    const hasFailed = failedApplications > 0;
+    const message = hasFailed
+      ? `${failedApplications} application${failedApplications === 1 ? '' : 's'} could not be sent`
+      : `${pendingApplications} application${pendingApplications === 1 ? '' : 's'} waiting to be sent`;
+    
+    return (
+      <TouchableOpacity
+        style={[
+          styles.outboxBanner,
+          { backgroundColor: hasFailed ? (colorScheme === 'dark' ? '#3B1F22' : '#FEF2F2') : (colorScheme === 'dark' ? '#2D3038' : '#EEF2FF') }
+        ]}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          router.push('/outbox');
+        }}
+      >
+        <FontAwesome5 name={hasFailed ? 'exclamation-triangle' : 'paper-plane'} size={14} color={hasFailed ? '#FF4D4F' : colors.tint} />
+        <Text style={[styles.outboxBannerText, { color: colors.text }]}>{message}</Text>
+        <FontAwesome5 name="chevron-right" size={12} color={colors.icon} />
+      </TouchableOpacity>
+    );
+  };
+
+  // Render the current sort with a button to change it
+  const renderSortBar = () => (
+    <View style={styles.sortBar}>
+      {searchQuery.trim() || hasActiveFilters(filters) ? (
+        <TouchableOpacity style={styles.sortButton} onPress={handleSaveSearch}>
+          <FontAwesome5 name="bell" size={12} color={colors.tint} />
+          <Text style={[styles.sortButtonText, { color: colors.tint }]}>Save search</Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={[styles.sortBarLabel, { color: colors.icon }]}>Sort by</Text>
+      )}
+      <TouchableOpacity
+        style={styles.sortButton}
+        onPress={() => {
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+          setIsSortSheetVisible(true);
+        }}
+      >
+        <FontAwesome5 name="sort-amount-down" size={12} color={colors.tint} />
+        <Text style={[styles.sortButtonText, { color: colors.tint }]}>
+          {SORT_OPTIONS.find(option => option.value === sort)?.label}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   // Render active filters
   const renderActiveFilters = () => {
-    const hasActiveFilters = filters.category || filters.location || filters.type || filters.featured;
+    if (!hasActiveFilters(filters)) return null;
     
-    if (!hasActiveFilters) return null;
+    const salaryLabel = filters.minSalary != null && filters.maxSalary != null
+      ? `${formatAnnualAmount(filters.minSalary)} - ${formatAnnualAmount(filters.maxSalary)}`
+      : filters.minSalary != null
+        ? `${formatAnnualAmount(filters.minSalary)}+`
+        : `Up to ${formatAnnualAmount(filters.maxSalary ?? 0)}`;
     
     return (
       <View style={styles.activeFiltersContainer}>
@@ -519,26 +701,27 @@ const JobsScreen = () => {
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.activeFiltersContent}
         >
-          {filters.category && (
+          {filters.categories?.map(slug => (
             <TouchableOpacity 
+              key={`category-${slug}`}
               style={[
                 styles.filterChip,
                 { backgroundColor: colorScheme === 'dark' ? '#3E4049' : '#EEF2FF' }
               ]}
               onPress={() => {
                 Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                setFilters(prev => ({ ...prev, category: undefined }));
+                setFilters(prev => ({ ...prev, categories: toggleFilterValue(prev.categories, slug) }));
               }}
             >
               <Text style={[
                 styles.filterChipText,
                 { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }
               ]}>
-                {categories.find(c => c.slug === filters.category)?.name || 'Category'}
+                {categories.find(c => c.slug === slug)?.name || slug}
               </Text>
               <FontAwesome5 name="times" size={10} color={colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5'} />
             </TouchableOpacity>
-          )}
+          ))}
           
           {filters.location && (
             <TouchableOpacity 
@@ -561,26 +744,27 @@ const JobsScreen = () => {
             </TouchableOpacity>
           )}
           
-          {filters.type && (
+          {filters.types?.map(type => (
             <TouchableOpacity 
+              key={`type-${type}`}
               style={[
                 styles.filterChip,
                 { backgroundColor: colorScheme === 'dark' ? '#3E4049' : '#EEF2FF' }
               ]}
               onPress={() => {
                 Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-                setFilters(prev => ({ ...prev, type: undefined }));
+                setFilters(prev => ({ ...prev, types: toggleFilterValue(prev.types, type) }));
               }}
             >
               <Text style={[
                 styles.filterChipText,
                 { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }
               ]}>
-                {filters.type}
+                {type}
               </Text>
               <FontAwesome5 name="times" size={10} color={colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5'} />
             </TouchableOpacity>
-          )}
+          ))}
           
           {filters.featured && (
             <TouchableOpacity 
@@ -603,6 +787,69 @@ const JobsScreen = () => {
             </TouchableOpacity>
           )}
           
+          {(filters.minSalary != null || filters.maxSalary != null) && (
+            <TouchableOpacity 
+              style={[
+                styles.filterChip,
+                { backgroundColor: colorScheme === 'dark' ? '#3E4049' : '#EEF2FF' }
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setFilters(prev => ({ ...prev, minSalary: undefined, maxSalary: undefined }));
+              }}
+            >
+              <Text style={[
+                styles.filterChipText,
+                { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }
+              ]}>
+                {salaryLabel}
+              </Text>
+              <FontAwesome5 name="times" size={10} color={colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5'} />
+            </TouchableOpacity>
+          )}
+          
+          {filters.postedWithin && (
+            <TouchableOpacity 
+              style={[
+                styles.filterChip,
+                { backgroundColor: colorScheme === 'dark' ? '#3E4049' : '#EEF2FF' }
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setFilters(prev => ({ ...prev, postedWithin: undefined }));
+              }}
+            >
+              <Text style={[
+                styles.filterChipText,
+                { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }
+              ]}>
+                {POSTED_WITHIN_OPTIONS.find(option => option.value === filters.postedWithin)?.label}
+              </Text>
+              <FontAwesome5 name="times" size={10} color={colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5'} />
+            </TouchableOpacity>
+          )}
+          
+          {filters.workplace && (
+            <TouchableOpacity 
+              style={[
+                styles.filterChip,
+                { backgroundColor: colorScheme === 'dark' ? '#3E4049' : '#EEF2FF' }
+              ]}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setFilters(prev => ({ ...prev, workplace: undefined }));
+              }}
+            >
+              <Text style={[
+                styles.filterChipText,
+                { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }
+              ]}>
+                {WORKPLACE_OPTIONS.find(option => option.value === filters.workplace)?.label}
+              </Text>
+              <FontAwesome5 name="times" size={10} color={colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5'} />
+            </TouchableOpacity>
+          )}
+          
           <TouchableOpacity 
             style={[
               styles.clearAllButton,
@@ -722,9 +969,25 @@ const JobsScreen = () => {
             <>
               {renderHeader()}
               <View style={{ height: 20 }} />
+              {renderOutboxBanner()}
+              {renderSortBar()}
               {renderActiveFilters()}
             </>
           }
+          onEndReached={() => {
+            // Search results already cover the whole local cache
+            if (hasMore && !searchQuery.trim()) {
+              loadMoreJobs();
+            }
+          }}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <View style={styles.listFooter}>
+                <ActivityIndicator size="small" color={colors.tint} />
+              </View>
+            ) : null
+          }
           showsVerticalScrollIndicator={false}
           initialNumToRender={5}
           maxToRenderPerBatch={10}
@@ -749,6 +1012,14 @@ const JobsScreen = () => {
         onApplyFilters={handleApplyFilters}
         categories={categories}
         currentFilters={filters}
+        searchQuery={searchQuery}
+      />
+      
+      <SortSheet
+        isVisible={isSortSheetVisible}
+        onClose={() => setIsSortSheetVisible(false)}
+        onSelectSort={handleSelectSort}
+        currentSort={sort}
       />
       
       {/* Rating prompt */}
@@ -799,6 +1070,42 @@ const styles = StyleSheet.create({
   iconButton: {
     padding: 8,
   },
+  iconBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 0,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 4,
+    backgroundColor: '#EF4444',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  sortBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sortBarLabel: {
+    fontSize: 13,
+  },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  sortButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   searchContainer: {
     marginTop: 8,
   },
@@ -855,6 +1162,19 @@ const styles = StyleSheet.create({
     paddingTop: 16,
     paddingBottom: Platform.OS === 'ios' ? 40 : 80,
   },
+  outboxBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  outboxBannerText: {
+    flex: 1,
+    fontSize: 14,
+    marginLeft: 10,
+  },
   activeFiltersContainer: {
     marginVertical: 12,
     paddingHorizontal: 16,
@@ -901,4 +1221,8 @@ const styles = StyleSheet.create({
     marginVertical: 10,
     paddingHorizontal: 16,
   },
+  listFooter: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
 }); 
\ No newline at end of file
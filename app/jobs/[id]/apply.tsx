@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -10,7 +10,7 @@ import {
   Alert,
   KeyboardAvoidingView,
   Platform,
-  Image,
+  Switch,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { FontAwesome5 } from '@expo/vector-icons';
@@ -18,14 +18,22 @@ import { useColorScheme } from 'react-native';
 import { Colors } from '../../../constants/Colors';
 import * as Haptics from 'expo-haptics';
 import { router, useLocalSearchParams } from 'expo-router';
-import Constants from 'expo-constants';
-import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-// Import services and context
-import { Job, fetchJobById } from '../../../services/api';
-import { useJobs } from '../../../contexts/JobsContext';
+// Import services and hooks
+import { Job, ResumeFile, ApplicationPayload, createIdempotencyKey, fetchJobById, submitApplication } from '../../../services/api';
+import { enqueueApplication } from '../../../services/outbox';
+import { recordApplication } from '../../../services/applications';
+import { updateProfile } from '../../../services/profile';
+import { ApiError, NetworkError, TimeoutError, getErrorMessage, isRejectionError } from '../../../services/errors';
+import { isAbortError } from '../../../services/http';
+import { useProfile } from '../../../hooks/useProfile';
+import { checkNetworkAndRefresh, getJobById } from '../../../services/jobStore';
+import { useIsOffline } from '../../../hooks/useJobs';
+
+// Why an application went to the outbox: no connection at all, or the server didn't answer
+type QueueReason = 'offline' | 'unreachable';
 
 export default function ApplyJobScreen() {
   // Get all available params from notification or regular navigation
@@ -40,8 +48,7 @@ export default function ApplyJobScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   
-  // Get access to the jobs context
-  const { getJobById, isOffline, checkNetworkAndRefresh } = useJobs();
+  const isOffline = useIsOffline();
   
   // State for job info
   const [job, setJob] = useState<Job | null>(null);
@@ -51,7 +58,12 @@ export default function ApplyJobScreen() {
   // Form state
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
-  const [resumeImage, setResumeImage] = useState<string | null>(null);
+  const [resume, setResume] = useState<ResumeFile | null>(null);
+  
+  // Candidate profile used to prefill the form
+  const { profile, isLoading: isProfileLoading } = useProfile();
+  const hasPrefilled = useRef(false);
+  const [saveToProfile, setSaveToProfile] = useState(true);
   
   // Form validation state
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -59,31 +71,15 @@ export default function ApplyJobScreen() {
   // Form submission state
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
-
-  // For jobs coming from notifications, we might already have some details
-  useEffect(() => {
-    // If we have notification data, create a basic job object while real data loads
-    if (id && jobTitle && companyName) {
-      const placeholderJob: Job = {
-        id: id,
-        title: jobTitle,
-        company: companyName,
-        location: location || 'Loading...',
-        type: '',
-        salary: '',
-        postedDate: new Date().toISOString(),
-      };
-      
-      // Set placeholder job while loading real data
-      setJob(placeholderJob);
-    }
-    
-    // Always fetch full job details
-    fetchJobInfo();
-  }, [id, jobTitle, companyName]);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Why the application was saved to the outbox instead of sent, if it was
+  const [queuedReason, setQueuedReason] = useState<QueueReason | null>(null);
+  // Shared by every attempt at the same application, so the server never stores it twice.
+  // A new key is made once the server has answered, so a corrected resubmit counts as a new application.
+  const idempotencyKey = useRef(createIdempotencyKey());
 
   // Function to fetch job details
-  const fetchJobInfo = async () => {
+  const fetchJobInfo = useCallback(async (signal?: AbortSignal) => {
     if (!id) return;
     
     setIsLoading(true);
@@ -91,12 +87,12 @@ export default function ApplyJobScreen() {
 
     try {
       // Try to get job from context first (cache)
-      let jobData = await getJobById(id);
+      let jobData = await getJobById(id, signal);
       
       // If not in context, fetch directly from API
       if (!jobData) {
         console.log("Job not found in context, fetching from API directly");
-        jobData = await fetchJobById(id);
+        jobData = await fetchJobById(id, signal);
       }
       
       if (!jobData) {
@@ -105,20 +101,69 @@ export default function ApplyJobScreen() {
       
       setJob(jobData);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching job info:', error);
       
-      // Don't show error if we have basic job info from notification params
-      if (!(jobTitle && companyName)) {
-        if (error instanceof Error) {
-          setError(error.message);
-        } else {
-          setError('Failed to load job information. Please try again.');
-        }
+      // A job that no longer exists can't be applied to, even with details from notification params
+      if (error instanceof ApiError && error.kind === 'not_found') {
+        setJob(null);
+        setError('This job is no longer available. It may have been filled or removed.');
+      } else if (!(jobTitle && companyName)) {
+        // Otherwise don't show an error if we have basic job info from notification params
+        setError(getErrorMessage(error));
       }
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
+    }
+  }, [id, jobTitle, companyName]);
+
+  // For jobs coming from notifications, we might already have some details
+  useEffect(() => {
+    // If we have notification data, create a basic job object while real data loads
+    if (id && jobTitle && companyName) {
+      const placeholderJob: Job = {
+        id: id,
+        title: jobTitle,
+        company: companyName,
+        companyLogo: null,
+        location: location || 'Loading...',
+        type: '',
+        salary: '',
+        description: '',
+        requirements: [],
+        benefits: [],
+        postedDate: new Date().toISOString(),
+        featured: false,
+        category: '',
+      };
+      
+      // Set placeholder job while loading real data
+      setJob(placeholderJob);
     }
+    
+    // Always fetch full job details, cancelling if the screen closes first
+    const controller = new AbortController();
+    fetchJobInfo(controller.signal);
+    return () => controller.abort();
+  }, [id, jobTitle, companyName, location, fetchJobInfo]);
+
+  // Prefill the form from the saved profile once it has loaded
+  useEffect(() => {
+    if (isProfileLoading || hasPrefilled.current) return;
+    hasPrefilled.current = true;
+    
+    setEmail(current => current || profile.email);
+    setPhone(current => current || profile.phone);
+    setResume(current => current || profile.resume);
+  }, [isProfileLoading, profile]);
+  
+  // Values that differ from the profile and could be saved back to it
+  const profileChanges = {
+    ...(email.trim() && email.trim() !== profile.email ? { email: email.trim() } : {}),
+    ...(phone.trim() && phone.trim() !== profile.phone ? { phone: phone.trim() } : {}),
+    ...(resume && resume.uri !== profile.resume?.uri ? { resume } : {}),
   };
+  const hasProfileChanges = Object.keys(profileChanges).length > 0;
 
   // Pick document file
   const pickDocument = async () => {
@@ -131,8 +176,14 @@ export default function ApplyJobScreen() {
       });
       
       if (result.canceled === false && result.assets && result.assets.length > 0) {
-        setResumeImage(result.assets[0].uri);
-        setErrors(prev => ({ ...prev, resumeImage: '' }));
+        const asset = result.assets[0];
+        setResume({
+          uri: asset.uri,
+          name: asset.name,
+          mimeType: asset.mimeType,
+          size: asset.size,
+        });
+        setErrors(prev => ({ ...prev, resume: '' }));
       }
     } catch (error) {
       console.error('Error picking document:', error);
@@ -154,8 +205,8 @@ export default function ApplyJobScreen() {
       newErrors.phone = 'Phone number is required';
     }
     
-    if (!resumeImage) {
-      newErrors.resumeImage = 'Resume upload is required';
+    if (!resume) {
+      newErrors.resume = 'Resume upload is required';
     }
     
     setErrors(newErrors);
@@ -172,50 +223,110 @@ export default function ApplyJobScreen() {
     }
     
     setIsSubmitting(true);
+    setSubmitError(null);
+    
+    const payload: ApplicationPayload = {
+      jobId: id,
+      email: email.trim(),
+      phone: phone.trim(),
+      resume: resume!,
+      idempotencyKey: idempotencyKey.current,
+    };
+    
+    // Reset form fields and show the confirmation screen
+    const finishSubmission = (reason: QueueReason | null) => {
+      if (saveToProfile && hasProfileChanges) {
+        updateProfile(profileChanges).catch(() => {
+          // Already logged; the application itself went through
+        });
+      }
+      
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setQueuedReason(reason);
+      setIsSubmitted(true);
+      setEmail('');
+      setPhone('');
+      setResume(null);
+    };
+    
+    // Save the application so the outbox can send it once we are back online
+    const queueApplication = async (reason: QueueReason) => {
+      await enqueueApplication(payload, { title: job?.title || jobTitle, company: job?.company || companyName });
+      finishSubmission(reason);
+    };
     
     try {
-      const API_URL = 'https://jobs-site-mu.vercel.app/api';
+      if (isOffline) {
+        await queueApplication('offline');
+        return;
+      }
+      
+      const receipt = await submitApplication(payload);
+      idempotencyKey.current = createIdempotencyKey();
+      
+      // Only show success once the backend has confirmed the application
+      finishSubmission(null);
       
-      // Instead of uploading resume, create a subscriber with email and phone
-      const response = await fetch(`${API_URL}/subscribers`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email,
-          phone
-        }),
+      recordApplication({
+        jobId: id,
+        remoteId: receipt.applicationId,
+        jobTitle: job?.title || jobTitle,
+        company: job?.company || companyName,
+        appliedAt: receipt.submittedAt,
+      }).catch(() => {
+        // Already logged; the application itself was sent
       });
+    } catch (error) {
+      console.error('Error submitting application:', error);
       
-      // Check if response was successful
-      const responseData = await response.json();
+      // Timeouts and network errors keep the key, since the first request may still have landed
+      if (isRejectionError(error)) {
+        idempotencyKey.current = createIdempotencyKey();
+      }
       
-      if (!response.ok) {
-        console.log('Subscription API error:', responseData.message);
-        // Still show success to user even if there was an error
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        setIsSubmitted(true);
+      if (error instanceof TimeoutError) {
+        // The upload may have reached the server before the response was lost, so let the user decide.
+        // Sending it again is safe either way, since the server deduplicates on the idempotency key.
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        setSubmitError('We could not confirm that your application was received.');
+        Alert.alert(
+          'Application not confirmed',
+          'The server took too long to answer, so your application may or may not have been received. Send it again automatically once the connection is better?',
+          [
+            { text: 'Not now', style: 'cancel' },
+            {
+              text: 'Send Later',
+              onPress: () => {
+                queueApplication('unreachable').catch(queueError => {
+                  console.error('Error queuing application:', queueError);
+                  Alert.alert('Error', 'Failed to queue your application. Please try again.');
+                });
+              },
+            },
+          ]
+        );
         return;
       }
       
-      console.log('Subscriber created successfully:', responseData);
-      
-      // Show success UI
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      setIsSubmitted(true);
-      
-      // Reset form fields
-      setEmail('');
-      setPhone('');
-      setResumeImage(null);
+      if (error instanceof NetworkError && !isOffline) {
+        // The request never reached the server, so it is safe to send again later
+        try {
+          await queueApplication('unreachable');
+          return;
+        } catch (queueError) {
+          console.error('Error queuing application:', queueError);
+        }
+      }
       
-    } catch (error) {
-      console.error('Error creating subscriber:', error);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       
-      // Still show success to the user
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      setIsSubmitted(true);
+      if (error instanceof NetworkError) {
+        setSubmitError('We could not reach the server. Check your connection and try again.');
+      } else if (error instanceof Error) {
+        setSubmitError(error.message);
+      } else {
+        setSubmitError('Something went wrong while sending your application. Please try again.');
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -228,12 +339,27 @@ export default function ApplyJobScreen() {
         <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
         <View style={styles.successContainer}>
           <View style={styles.successIcon}>
-            <FontAwesome5 name="check-circle" size={80} color={colors.tint} />
+            <FontAwesome5 name={queuedReason ? 'paper-plane' : 'check-circle'} size={80} color={colors.tint} />
           </View>
-          <Text style={[styles.successTitle, { color: colors.text }]}>Thank You!</Text>
+          <Text style={[styles.successTitle, { color: colors.text }]}>
+            {queuedReason ? 'Application Queued' : 'Application Sent!'}
+          </Text>
           <Text style={[styles.successText, { color: colors.icon }]}>
-            {`You will now receive notifications about "${job?.title || jobTitle || ''}" at ${job?.company || companyName || ''} and similar opportunities. Good luck with your job search!`}
+            {queuedReason
+              ? `${queuedReason === 'offline' ? "You're offline" : "We couldn't reach the server"}, so your application for "${job?.title || jobTitle || ''}" at ${job?.company || companyName || ''} has been saved. We'll send it automatically as soon as ${queuedReason === 'offline' ? "you're back online" : 'the connection improves'}.`
+              : `Your application for "${job?.title || jobTitle || ''}" at ${job?.company || companyName || ''} has been received. Good luck with your job search!`}
           </Text>
+          {queuedReason ? (
+            <TouchableOpacity
+              style={styles.outboxLink}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                router.push('/outbox');
+              }}
+            >
+              <Text style={[styles.outboxLinkText, { color: colors.tint }]}>View queued applications</Text>
+            </TouchableOpacity>
+          ) : null}
           <TouchableOpacity
             style={[styles.doneButton, { backgroundColor: colors.tint }]}
             onPress={() => {
@@ -286,7 +412,7 @@ export default function ApplyJobScreen() {
           <Text style={[styles.errorText, { color: colors.text }]}>{error}</Text>
           <TouchableOpacity
             style={[styles.retryButton, { backgroundColor: colors.tint }]}
-            onPress={fetchJobInfo}
+            onPress={() => fetchJobInfo()}
           >
             <Text style={[styles.retryButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>Try Again</Text>
           </TouchableOpacity>
@@ -398,12 +524,12 @@ export default function ApplyJobScreen() {
                 Upload your resume in any format (PDF, DOC, DOCX, etc).
               </Text>
               
-              {resumeImage ? (
+              {resume ? (
                 <View style={styles.resumePreviewContainer}>
                   <View style={[styles.resumePreview, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F3F4F6' }]}>
                     <FontAwesome5 name="file-alt" size={50} color={colors.icon} />
                     <Text style={[styles.resumeFileName, { color: colors.text }]} numberOfLines={1} ellipsizeMode="middle">
-                      {resumeImage.split('/').pop()}
+                      {resume.name}
                     </Text>
                   </View>
                   <TouchableOpacity
@@ -419,7 +545,7 @@ export default function ApplyJobScreen() {
                     styles.uploadButton,
                     { 
                       backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
-                      borderColor: errors.resumeImage ? '#FF4D4F' : 'transparent',
+                      borderColor: errors.resume ? '#FF4D4F' : 'transparent',
                     }
                   ]}
                   onPress={pickDocument}
@@ -431,11 +557,42 @@ export default function ApplyJobScreen() {
                 </TouchableOpacity>
               )}
               
-              {errors.resumeImage ? (
-                <Text style={styles.errorText}>{errors.resumeImage}</Text>
+              {errors.resume ? (
+                <Text style={styles.errorText}>{errors.resume}</Text>
               ) : null}
             </View>
             
+            {/* Offer to remember newly entered details */}
+            {hasProfileChanges ? (
+              <View style={styles.saveProfileRow}>
+                <View style={styles.saveProfileContent}>
+                  <Text style={[styles.inputLabel, { color: colors.text }]}>Save to my profile</Text>
+                  <Text style={[styles.inputHelper, { color: colors.icon }]}>
+                    {profile.updatedAt ? 'Update your profile with these details' : 'Fill in future applications automatically'}
+                  </Text>
+                </View>
+                <Switch
+                  value={saveToProfile}
+                  onValueChange={value => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    setSaveToProfile(value);
+                  }}
+                  trackColor={{ true: colors.tint, false: undefined }}
+                />
+              </View>
+            ) : null}
+            
+            {/* Submission error with retry */}
+            {submitError ? (
+              <View style={[styles.submitErrorContainer, { backgroundColor: colorScheme === 'dark' ? '#3B1F22' : '#FEF2F2' }]}>
+                <FontAwesome5 name="exclamation-triangle" size={16} color="#FF4D4F" />
+                <View style={styles.submitErrorContent}>
+                  <Text style={[styles.submitErrorTitle, { color: colors.text }]}>Your application was not sent</Text>
+                  <Text style={[styles.submitErrorText, { color: colors.icon }]}>{submitError}</Text>
+                </View>
+              </View>
+            ) : null}
+            
             {/* Submit button and spacing for keyboard */}
             <View style={{ height: 40 }} />
           </View>
@@ -459,7 +616,9 @@ export default function ApplyJobScreen() {
           {isSubmitting ? (
             <ActivityIndicator size="small" color={colorScheme === 'dark' ? '#1F2937' : '#FFFFFF'} />
           ) : (
-            <Text style={[styles.submitButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>Apply</Text>
+            <Text style={[styles.submitButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>
+              {submitError ? 'Try Again' : isOffline ? 'Apply When Online' : 'Apply'}
+            </Text>
           )}
         </TouchableOpacity>
       </View>
@@ -611,6 +770,34 @@ const styles = StyleSheet.create({
   changeResumeText: {
     fontWeight: '500',
   },
+  saveProfileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  saveProfileContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  submitErrorContainer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  submitErrorContent: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  submitErrorTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginBottom: 2,
+  },
+  submitErrorText: {
+    fontSize: 13,
+  },
   submitContainer: {
     position: 'absolute',
     bottom: 0,
@@ -651,6 +838,14 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     lineHeight: 24,
   },
+  outboxLink: {
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  outboxLinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
   doneButton: {
     paddingHorizontal: 32,
     paddingVertical: 16,
@@ -19,50 +19,67 @@ import { router, useLocalSearchParams } from 'expo-router';
 import Constants from 'expo-constants';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-// Import services and context
-import { Job } from '../../../services/api';
-import { useJobs } from '../../../contexts/JobsContext';
+// Import services and hooks
+import { getSiteUrl } from '../../../services/config';
+import { formatSalary } from '../../../services/salary';
+import { ApiError, ApiErrorKind, NotFoundError, getErrorMessage } from '../../../services/errors';
+import { isAbortError } from '../../../services/http';
+import { checkNetworkAndRefresh, getJobById, toggleSavedJob } from '../../../services/jobStore';
+import { useIsJobSaved, useIsOffline, useJob } from '../../../hooks/useJobs';
+import { useApplications } from '../../../hooks/useApplications';
+
+// How each kind of failure is presented
+const ERROR_DISPLAY: Record<ApiErrorKind, { icon: string; title: string; message?: string }> = {
+  not_found: {
+    icon: 'search',
+    title: 'Job not found',
+    message: 'This job is no longer available. It may have been filled or removed.',
+  },
+  network: { icon: 'wifi-slash', title: 'No internet connection' },
+  server: { icon: 'server', title: 'Server unavailable' },
+  invalid_payload: { icon: 'exclamation-triangle', title: 'Could not load this job' },
+};
 
 export default function JobDetailsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
   
-  // Get access to the jobs context
-  const { getJobById, isOffline, checkNetworkAndRefresh } = useJobs();
+  const isOffline = useIsOffline();
+  const isSaved = useIsJobSaved(id as string);
+  // Kept up to date by the store, so details loaded or synced elsewhere show up here too
+  const job = useJob(id) ?? null;
   
-  const [job, setJob] = useState<Job | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [isSaved, setIsSaved] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const { getApplicationForJob } = useApplications();
+  const application = getApplicationForJob(id as string);
 
   useEffect(() => {
-    fetchJobDetails();
+    // Cancel the request if the screen closes before it finishes
+    const controller = new AbortController();
+    fetchJobDetails(controller.signal);
+    return () => controller.abort();
   }, [id]);
 
   // Function to fetch job details
-  const fetchJobDetails = async () => {
+  const fetchJobDetails = async (signal?: AbortSignal) => {
     setIsLoading(true);
     setError(null);
 
     try {
-      // Use the context method to get the job details from cache if available
-      const jobData = await getJobById(id as string);
+      // Loads the details into the store, from cache if available
+      const jobData = await getJobById(id as string, signal);
       
       if (!jobData) {
-        throw new Error('Job not found');
+        throw new NotFoundError(`Job ${id} was not found`);
       }
-      
-      setJob(jobData);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching job details:', error);
-      if (error instanceof Error) {
-        setError(error.message);
-      } else {
-        setError('Failed to load job details. Please try again.');
-      }
+      setError(error);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
   };
 
@@ -70,7 +87,7 @@ export default function JobDetailsScreen() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     try {
       await Share.share({
-        message: `Check out this job: ${job?.title} at ${job?.company}. Apply now at https://jobs-site-delta.vercel.app/jobs/${id}`,
+        message: `Check out this job: ${job?.title} at ${job?.company}. Apply now at ${getSiteUrl()}/jobs/${id}`,
         title: `${job?.title} - ${job?.company}`,
       });
     } catch (error) {
@@ -78,10 +95,15 @@ export default function JobDetailsScreen() {
     }
   };
 
-  const handleSaveJob = () => {
+  const handleSaveJob = async () => {
+    if (!job) return;
+    
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    setIsSaved(!isSaved);
-    // In a real app, we would save to API or local storage here
+    try {
+      await toggleSavedJob(job);
+    } catch (error) {
+      console.error('Error toggling saved job:', error);
+    }
   };
 
   const handleApplyJob = () => {
@@ -92,40 +114,6 @@ export default function JobDetailsScreen() {
     });
   };
 
-  // Format salary for display
-  const formatSalary = (salary: any): string => {
-    if (!salary) return "Not specified";
-    
-    // If salary is already a string, return it directly
-    if (typeof salary === 'string') return salary;
-    
-    // Otherwise, format the salary object
-    try {
-      const { min, max, currency, period } = salary;
-      let formattedSalary = "";
-      
-      if (min && max) {
-        formattedSalary = `${currency || '$'}${min.toLocaleString()} - ${currency || '$'}${max.toLocaleString()}`;
-      } else if (min) {
-        formattedSalary = `${currency || '$'}${min.toLocaleString()}+`;
-      } else if (max) {
-        formattedSalary = `Up to ${currency || '$'}${max.toLocaleString()}`;
-      } else {
-        return "Competitive";
-      }
-      
-      // Add period if available
-      if (period) {
-        formattedSalary += ` per ${period}`;
-      }
-      
-      return formattedSalary;
-    } catch (error) {
-      // Fallback for any parsing errors
-      return "Competitive";
-    }
-  };
-
   // Calculate time since posting
   const getPostedTime = (postedDate: string | Date): string => {
     if (!postedDate) return "Recently";
@@ -186,17 +174,27 @@ export default function JobDetailsScreen() {
 
   // Only show error state, handle loading within the main UI
   if (error && !job) {
+    const errorKind = error instanceof ApiError ? error.kind : null;
+    const errorDisplay = errorKind ? ERROR_DISPLAY[errorKind] : { icon: 'exclamation-circle', title: 'Something went wrong' };
+    // Retrying won't bring back a job that no longer exists
+    const canRetry = errorKind !== 'not_found';
+    
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
         <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
         <View style={styles.errorContainer}>
-          <FontAwesome5 name="exclamation-circle" size={50} color={colors.icon} />
-          <Text style={[styles.errorText, { color: colors.text }]}>{error || 'Job not found'}</Text>
+          <FontAwesome5 name={errorDisplay.icon} size={50} color={colors.icon} />
+          <Text style={[styles.errorText, { color: colors.text }]}>{errorDisplay.title}</Text>
+          <Text style={[styles.errorSubtext, { color: colors.icon, marginBottom: 24 }]}>
+            {errorDisplay.message ?? getErrorMessage(error)}
+          </Text>
           <TouchableOpacity
             style={[styles.retryButton, { backgroundColor: colors.tint }]}
-            onPress={fetchJobDetails}
+            onPress={canRetry ? () => fetchJobDetails() : () => router.back()}
           >
-            <Text style={[styles.retryButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>Try Again</Text>
+            <Text style={[styles.retryButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>
+              {canRetry ? 'Try Again' : 'Back to Jobs'}
+            </Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -266,7 +264,7 @@ export default function JobDetailsScreen() {
                   />
                 ) : (
                   <Text style={[styles.logoPlaceholder, { color: colorScheme === 'dark' ? '#F3F4F6' : '#4F46E5' }]}>
-                    {job.company && typeof job.company === 'string' ? job.company.charAt(0) : '?'}
+                    {job.company.charAt(0)}
                   </Text>
                 )}
               </View>
@@ -331,7 +329,7 @@ export default function JobDetailsScreen() {
             </View>
             
             {/* Requirements */}
-            {Array.isArray(job.requirements) && job.requirements.length > 0 && (
+            {job.requirements.length > 0 && (
               <View style={styles.section}>
                 <Text style={[styles.sectionTitle, { color: colors.text }]}>Requirements</Text>
                 <View style={styles.listContainer}>
@@ -346,7 +344,7 @@ export default function JobDetailsScreen() {
             )}
             
             {/* Benefits */}
-            {Array.isArray(job.benefits) && job.benefits.length > 0 && (
+            {job.benefits.length > 0 && (
               <View style={styles.section}>
                 <Text style={[styles.sectionTitle, { color: colors.text }]}>Benefits</Text>
                 <View style={styles.listContainer}>
@@ -371,23 +369,38 @@ export default function JobDetailsScreen() {
         <View style={{ height: 100 }} />
       </ScrollView>
       
-      {/* Apply button */}
+      {/* Apply button, or the application date once the user has applied */}
       <View style={[
         styles.applyContainer,
         { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }
       ]}>
-        <TouchableOpacity
-          style={[styles.applyButton, { 
-            backgroundColor: job ? colors.tint : colors.icon,
-            opacity: job ? 1 : 0.7 
-          }]}
-          onPress={handleApplyJob}
-          disabled={!job}
-        >
-          <Text style={[styles.applyButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>
-            Apply for this Job
-          </Text>
-        </TouchableOpacity>
+        {application ? (
+          <TouchableOpacity
+            style={[styles.appliedButton, { borderColor: colors.tint }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push('/applications');
+            }}
+          >
+            <FontAwesome5 name="check-circle" size={16} color={colors.tint} />
+            <Text style={[styles.appliedButtonText, { color: colors.tint }]}>
+              Applied on {new Date(application.appliedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.applyButton, { 
+              backgroundColor: job ? colors.tint : colors.icon,
+              opacity: job ? 1 : 0.7 
+            }]}
+            onPress={handleApplyJob}
+            disabled={!job}
+          >
+            <Text style={[styles.applyButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>
+              Apply for this Job
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
     </SafeAreaView>
   );
@@ -556,6 +569,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  appliedButton: {
+    flexDirection: 'row',
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  appliedButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginLeft: 8,
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,319 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Platform,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services and hooks
+import { OutboxItem, OutboxStatus, processOutbox, removeOutboxItem, retryOutboxItem } from '../services/outbox';
+import { useOutbox } from '../hooks/useOutbox';
+import { useIsOffline } from '../hooks/useJobs';
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Waiting to send',
+  sending: 'Sending...',
+  sent: 'Sent',
+  failed: 'Failed',
+};
+
+const STATUS_ICONS: Record<OutboxStatus, string> = {
+  pending: 'clock',
+  sending: 'paper-plane',
+  sent: 'check-circle',
+  failed: 'exclamation-circle',
+};
+
+// Format when an application was queued
+const formatQueuedDate = (createdAt: string): string => {
+  const date = new Date(createdAt);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+};
+
+export default function OutboxScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { items } = useOutbox();
+  const isOffline = useIsOffline();
+
+  const getStatusColor = (status: OutboxStatus): string => {
+    if (status === 'failed') return '#FF4D4F';
+    if (status === 'sent') return '#10B981';
+    return colors.tint;
+  };
+
+  const handleRetry = (item: OutboxItem) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    retryOutboxItem(item.id).catch(error => {
+      console.error('Error retrying application:', error);
+    });
+  };
+
+  const handleRemove = (item: OutboxItem) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const remove = () => {
+      removeOutboxItem(item)
+        .then(removed => {
+          if (!removed) {
+            Alert.alert('Sending now', 'This application is being sent right now. You can remove it once it has finished.');
+          }
+        })
+        .catch(() => {
+          Alert.alert('Error', 'Failed to remove the application. Please try again.');
+        });
+    };
+
+    if (item.status === 'sent') {
+      remove();
+      return;
+    }
+
+    Alert.alert(
+      'Discard application?',
+      'This application has not been sent and will be deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: remove },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: OutboxItem }) => {
+    const statusColor = getStatusColor(item.status);
+
+    return (
+      <View style={[styles.itemCard, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#FFFFFF' }]}>
+        <View style={styles.itemHeader}>
+          <View style={styles.itemInfo}>
+            <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+              {item.jobTitle || 'Job application'}
+            </Text>
+            {item.company ? (
+              <Text style={[styles.itemCompany, { color: colors.icon }]} numberOfLines={1}>{item.company}</Text>
+            ) : null}
+          </View>
+          <View style={[styles.statusBadge, { borderColor: statusColor }]}>
+            <FontAwesome5 name={STATUS_ICONS[item.status]} size={11} color={statusColor} />
+            <Text style={[styles.statusText, { color: statusColor }]}>{STATUS_LABELS[item.status]}</Text>
+          </View>
+        </View>
+
+        <Text style={[styles.itemMeta, { color: colors.icon }]}>
+          Queued {formatQueuedDate(item.createdAt)} • {item.resume.name}
+        </Text>
+
+        {item.lastError && item.status !== 'sent' ? (
+          <Text style={[styles.itemError, { color: colors.icon }]} numberOfLines={2}>
+            {`Last attempt failed: ${item.lastError}`}
+          </Text>
+        ) : null}
+
+        <View style={styles.itemActions}>
+          {item.status === 'failed' ? (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleRetry(item)}>
+              <FontAwesome5 name="redo" size={12} color={colors.tint} />
+              <Text style={[styles.actionText, { color: colors.tint }]}>Retry</Text>
+            </TouchableOpacity>
+          ) : null}
+          {item.status !== 'sending' ? (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleRemove(item)}>
+              <FontAwesome5 name="trash-alt" size={12} color={colors.icon} />
+              <Text style={[styles.actionText, { color: colors.icon }]}>
+                {item.status === 'sent' ? 'Clear' : 'Discard'}
+              </Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Queued Applications</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          disabled={isOffline}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            processOutbox();
+          }}
+        >
+          <FontAwesome5 name="sync-alt" size={16} color={isOffline ? 'rgba(150, 150, 150, 0.5)' : colors.icon} />
+        </TouchableOpacity>
+      </View>
+
+      {isOffline ? (
+        <View style={[styles.offlineNotice, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#EEF2FF' }]}>
+          <FontAwesome5 name="wifi-slash" size={12} color={colors.icon} />
+          <Text style={[styles.offlineNoticeText, { color: colors.icon }]}>
+            You're offline. Applications will be sent when you reconnect.
+          </Text>
+        </View>
+      ) : null}
+
+      {items.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="paper-plane" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>No queued applications</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Applications you submit while offline will appear here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={items}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  offlineNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  offlineNoticeText: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  itemCard: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  itemCompany: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  statusBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 10,
+  },
+  itemError: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,477 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import * as DocumentPicker from 'expo-document-picker';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services and hooks
+import { ResumeFile } from '../services/api';
+import { ProfileLink, parseSkills, updateProfile } from '../services/profile';
+import { useProfile } from '../hooks/useProfile';
+
+export default function ProfileScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { profile, isLoading } = useProfile();
+
+  // Form state
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [links, setLinks] = useState<ProfileLink[]>([]);
+  const [skills, setSkills] = useState('');
+  const [resume, setResume] = useState<ResumeFile | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  // Set once the user changes anything, so later profile updates don't overwrite their edits
+  const isEdited = useRef(false);
+
+  const edit = <T,>(setter: React.Dispatch<React.SetStateAction<T>>) => (value: React.SetStateAction<T>) => {
+    isEdited.current = true;
+    setter(value);
+  };
+
+  // Fill the form from the stored profile, and keep it current until the user starts editing
+  useEffect(() => {
+    if (isLoading || isEdited.current) return;
+
+    setName(profile.name);
+    setEmail(profile.email);
+    setPhone(profile.phone);
+    setLinks(profile.links);
+    setSkills(profile.skills.join(', '));
+    setResume(profile.resume);
+  }, [isLoading, profile]);
+
+  const inputBackground = colorScheme === 'dark' ? '#2D3038' : '#F3F4F6';
+  const placeholderColor = colorScheme === 'dark' ? '#9BA1A6' : '#9CA3AF';
+
+  // Pick a default resume
+  const pickDocument = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', '*/*'],
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled === false && result.assets && result.assets.length > 0) {
+        const asset = result.assets[0];
+        edit(setResume)({
+          uri: asset.uri,
+          name: asset.name,
+          mimeType: asset.mimeType,
+          size: asset.size,
+        });
+      }
+    } catch (error) {
+      console.error('Error picking document:', error);
+      Alert.alert('Error', 'Failed to pick document. Please try again.');
+    }
+  };
+
+  const updateLink = (index: number, changes: Partial<ProfileLink>) => {
+    edit(setLinks)(prev => prev.map((link, i) => (i === index ? { ...link, ...changes } : link)));
+  };
+
+  // Validate form fields
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (email.trim() && !/\S+@\S+\.\S+/.test(email)) {
+      newErrors.email = 'Email is invalid';
+    }
+
+    links.forEach((link, index) => {
+      if (link.url.trim() && !/^https?:\/\/\S+$/i.test(link.url.trim())) {
+        newErrors[`link${index}`] = 'Links must start with http:// or https://';
+      }
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    if (!validateForm()) {
+      Alert.alert('Error', 'Please check the form for errors');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      await updateProfile({
+        name: name.trim(),
+        email: email.trim(),
+        phone: phone.trim(),
+        links: links
+          .map(link => ({ label: link.label.trim(), url: link.url.trim() }))
+          .filter(link => link.url),
+        skills: parseSkills(skills),
+        resume,
+      });
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      router.back();
+    } catch {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', 'Failed to save your profile. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>My Profile</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push('/settings');
+          }}
+        >
+          <FontAwesome5 name="cog" size={18} color={colors.icon} />
+        </TouchableOpacity>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.container}
+      >
+        <ScrollView
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={[styles.introText, { color: colors.icon }]}>
+            We use these details to fill in job applications for you.
+          </Text>
+
+          {/* Name */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Full Name</Text>
+            <TextInput
+              style={[styles.textInput, { backgroundColor: inputBackground, color: colors.text }]}
+              placeholder="Enter your full name"
+              placeholderTextColor={placeholderColor}
+              value={name}
+              onChangeText={edit(setName)}
+              autoCapitalize="words"
+            />
+          </View>
+
+          {/* Email */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Email</Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                { backgroundColor: inputBackground, color: colors.text, borderColor: errors.email ? '#FF4D4F' : 'transparent' }
+              ]}
+              placeholder="Enter your email address"
+              placeholderTextColor={placeholderColor}
+              value={email}
+              onChangeText={edit(setEmail)}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            {errors.email ? <Text style={styles.errorText}>{errors.email}</Text> : null}
+          </View>
+
+          {/* Phone */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Phone</Text>
+            <TextInput
+              style={[styles.textInput, { backgroundColor: inputBackground, color: colors.text }]}
+              placeholder="Enter your phone number"
+              placeholderTextColor={placeholderColor}
+              value={phone}
+              onChangeText={edit(setPhone)}
+              keyboardType="phone-pad"
+            />
+          </View>
+
+          {/* Links */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Links</Text>
+            <Text style={[styles.inputHelper, { color: colors.icon }]}>
+              LinkedIn, portfolio, GitHub or anything else employers should see.
+            </Text>
+            {links.map((link, index) => (
+              <View key={index}>
+                <View style={styles.linkRow}>
+                  <TextInput
+                    style={[styles.textInput, styles.linkLabelInput, { backgroundColor: inputBackground, color: colors.text }]}
+                    placeholder="Label"
+                    placeholderTextColor={placeholderColor}
+                    value={link.label}
+                    onChangeText={label => updateLink(index, { label })}
+                  />
+                  <TextInput
+                    style={[
+                      styles.textInput,
+                      styles.linkUrlInput,
+                      { backgroundColor: inputBackground, color: colors.text, borderColor: errors[`link${index}`] ? '#FF4D4F' : 'transparent' }
+                    ]}
+                    placeholder="https://"
+                    placeholderTextColor={placeholderColor}
+                    value={link.url}
+                    onChangeText={url => updateLink(index, { url })}
+                    keyboardType="url"
+                    autoCapitalize="none"
+                  />
+                  <TouchableOpacity
+                    style={styles.removeLinkButton}
+                    onPress={() => {
+                      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                      edit(setLinks)(prev => prev.filter((_, i) => i !== index));
+                    }}
+                  >
+                    <FontAwesome5 name="times" size={14} color={colors.icon} />
+                  </TouchableOpacity>
+                </View>
+                {errors[`link${index}`] ? <Text style={styles.errorText}>{errors[`link${index}`]}</Text> : null}
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addLinkButton}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                edit(setLinks)(prev => [...prev, { label: '', url: '' }]);
+              }}
+            >
+              <FontAwesome5 name="plus" size={12} color={colors.tint} />
+              <Text style={[styles.addLinkText, { color: colors.tint }]}>Add Link</Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Skills */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Skills</Text>
+            <Text style={[styles.inputHelper, { color: colors.icon }]}>Separate skills with commas.</Text>
+            <TextInput
+              style={[styles.textInput, styles.multilineInput, { backgroundColor: inputBackground, color: colors.text }]}
+              placeholder="e.g. React Native, TypeScript, SQL"
+              placeholderTextColor={placeholderColor}
+              value={skills}
+              onChangeText={edit(setSkills)}
+              multiline
+            />
+          </View>
+
+          {/* Default resume */}
+          <View style={styles.inputGroup}>
+            <Text style={[styles.inputLabel, { color: colors.text }]}>Default Resume</Text>
+            {resume ? (
+              <View style={[styles.resumeRow, { backgroundColor: inputBackground }]}>
+                <FontAwesome5 name="file-alt" size={20} color={colors.icon} />
+                <Text style={[styles.resumeName, { color: colors.text }]} numberOfLines={1} ellipsizeMode="middle">
+                  {resume.name}
+                </Text>
+                <TouchableOpacity style={styles.resumeAction} onPress={pickDocument}>
+                  <Text style={[styles.resumeActionText, { color: colors.tint }]}>Change</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.resumeAction}
+                  onPress={() => {
+                    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                    edit(setResume)(null);
+                  }}
+                >
+                  <FontAwesome5 name="trash-alt" size={14} color={colors.icon} />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={[styles.uploadButton, { backgroundColor: inputBackground }]} onPress={pickDocument}>
+                <FontAwesome5 name="file-upload" size={20} color={colors.icon} />
+                <Text style={[styles.uploadButtonText, { color: colors.text }]}>Select Resume File</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={{ height: 40 }} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Save Button */}
+      <View style={[styles.saveContainer, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: isSaving || isLoading ? colors.icon : colors.tint }]}
+          onPress={handleSave}
+          disabled={isSaving || isLoading}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={colorScheme === 'dark' ? '#1F2937' : '#FFFFFF'} />
+          ) : (
+            <Text style={[styles.saveButtonText, { color: colorScheme === 'dark' ? '#1F2937' : '#FFFFFF' }]}>Save Profile</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  introText: {
+    fontSize: 14,
+    marginBottom: 24,
+  },
+  inputGroup: {
+    marginBottom: 24,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  inputHelper: {
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  textInput: {
+    height: 48,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  multilineInput: {
+    height: 88,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: '#FF4D4F',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  linkLabelInput: {
+    width: 100,
+    marginRight: 8,
+  },
+  linkUrlInput: {
+    flex: 1,
+  },
+  removeLinkButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  addLinkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  addLinkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  resumeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: 56,
+  },
+  resumeName: {
+    flex: 1,
+    fontSize: 14,
+    marginLeft: 12,
+  },
+  resumeAction: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  resumeActionText: {
+    fontWeight: '500',
+  },
+  uploadButton: {
+    height: 100,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  uploadButtonText: {
+    marginTop: 8,
+    fontSize: 16,
+  },
+  saveContainer: {
+    padding: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(150, 150, 150, 0.2)',
+  },
+  saveButton: {
+    padding: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Platform,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services and hooks
+import {
+  SavedSearch,
+  deleteSavedSearch,
+  renameSavedSearch,
+  setSavedSearchMuted,
+} from '../services/savedSearches';
+import { POSTED_WITHIN_OPTIONS, WORKPLACE_OPTIONS } from '../services/jobFilters';
+import { formatAnnualAmount } from '../services/salary';
+import { useSavedSearches } from '../hooks/useSavedSearches';
+
+// Summarise what a saved search looks for
+const describeSearch = ({ query, filters }: SavedSearch): string => {
+  const parts: string[] = [];
+  if (query) parts.push(`"${query}"`);
+  if (filters.categories?.length) parts.push(filters.categories.join(', '));
+  if (filters.types?.length) parts.push(filters.types.join(', '));
+  if (filters.location) parts.push(filters.location);
+  if (filters.workplace) parts.push(WORKPLACE_OPTIONS.find(option => option.value === filters.workplace)?.label ?? '');
+  if (filters.minSalary != null) parts.push(`${formatAnnualAmount(filters.minSalary)}+`);
+  if (filters.maxSalary != null) parts.push(`Up to ${formatAnnualAmount(filters.maxSalary)}`);
+  if (filters.postedWithin) parts.push(POSTED_WITHIN_OPTIONS.find(option => option.value === filters.postedWithin)?.label ?? '');
+  if (filters.featured) parts.push('Featured');
+  return parts.filter(Boolean).join(' • ') || 'All jobs';
+};
+
+function SavedSearchCard({ search }: { search: SavedSearch }) {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(search.name);
+
+  const handleRename = () => {
+    setIsEditing(false);
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === search.name) {
+      setName(search.name);
+      return;
+    }
+
+    renameSavedSearch(search.id, trimmed).catch(() => {
+      setName(search.name);
+      Alert.alert('Error', 'Failed to rename the search. Please try again.');
+    });
+  };
+
+  const handleToggleMuted = (alertsOn: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSavedSearchMuted(search.id, !alertsOn).catch(() => {
+      Alert.alert('Error', 'Failed to update alerts. Please try again.');
+    });
+  };
+
+  const handleDelete = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Alert.alert(
+      'Delete saved search?',
+      `You will no longer get alerts for "${search.name}".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteSavedSearch(search.id).catch(() => {
+              Alert.alert('Error', 'Failed to delete the search. Please try again.');
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const handleOpen = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Go back to the job list and run the search there
+    router.dismissTo({ pathname: '/', params: { savedSearchId: String(search.id) } });
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#FFFFFF' }]}>
+      <View style={styles.cardHeader}>
+        {isEditing ? (
+          <TextInput
+            style={[
+              styles.nameInput,
+              {
+                backgroundColor: colorScheme === 'dark' ? '#1F2937' : '#F3F4F6',
+                color: colors.text,
+              },
+            ]}
+            value={name}
+            onChangeText={setName}
+            onEndEditing={handleRename}
+            returnKeyType="done"
+            autoFocus
+          />
+        ) : (
+          <TouchableOpacity style={styles.cardInfo} onPress={handleOpen}>
+            <Text style={[styles.cardTitle, { color: colors.text }]} numberOfLines={1}>{search.name}</Text>
+            <Text style={[styles.cardMeta, { color: colors.icon }]} numberOfLines={2}>{describeSearch(search)}</Text>
+          </TouchableOpacity>
+        )}
+        {search.newMatchCount > 0 && !isEditing ? (
+          <View style={[styles.newBadge, { backgroundColor: colors.tint }]}>
+            <Text style={styles.newBadgeText}>{search.newMatchCount} new</Text>
+          </View>
+        ) : null}
+      </View>
+
+      <View style={styles.cardActions}>
+        <View style={styles.alertToggle}>
+          <FontAwesome5 name={search.muted ? 'bell-slash' : 'bell'} size={12} color={colors.icon} />
+          <Text style={[styles.actionText, { color: colors.icon }]}>Alerts</Text>
+          <Switch
+            value={!search.muted}
+            onValueChange={handleToggleMuted}
+            trackColor={{ false: '#767577', true: colors.tint }}
+            style={styles.alertSwitch}
+          />
+        </View>
+        <View style={styles.cardButtons}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setIsEditing(true);
+            }}
+          >
+            <FontAwesome5 name="pen" size={12} color={colors.tint} />
+            <Text style={[styles.actionText, { color: colors.tint }]}>Rename</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={handleDelete}>
+            <FontAwesome5 name="trash-alt" size={12} color={colors.icon} />
+            <Text style={[styles.actionText, { color: colors.icon }]}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+export default function SavedSearchesScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { savedSearches } = useSavedSearches();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Saved Searches</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {savedSearches.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="search" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>No saved searches yet</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Search or filter the job list, then tap "Save search" to get alerts for new matches
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={savedSearches}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={({ item }) => <SavedSearchCard search={item} />}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  card: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  nameInput: {
+    flex: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  newBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  newBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: 'rgba(150, 150, 150, 0.2)',
+  },
+  alertToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  alertSwitch: {
+    marginLeft: 8,
+  },
+  cardButtons: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,136 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import context and components
+import { useSavedJobs } from '../hooks/useJobs';
+import { JobCard } from '../components/JobCard';
+
+// Format the date a job was bookmarked
+const formatSavedDate = (savedAt: string): string => {
+  const date = new Date(savedAt);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+export default function SavedJobsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+  const { savedJobs } = useSavedJobs();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Saved Jobs</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.push('/saved-searches');
+          }}
+        >
+          <FontAwesome5 name="bell" size={18} color={colors.icon} />
+        </TouchableOpacity>
+      </View>
+
+      {savedJobs.length === 0 ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="bookmark" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>No saved jobs yet</Text>
+          <Text style={[styles.messageSubtext, { color: colors.icon }]}>
+            Tap the bookmark on a job to keep it here
+          </Text>
+        </View>
+      ) : (
+        <FlatList
+          data={savedJobs}
+          keyExtractor={(item) => item.job.id}
+          renderItem={({ item }) => (
+            <View>
+              <Text style={[styles.savedDate, { color: colors.icon }]}>
+                Saved {formatSavedDate(item.savedAt)}
+              </Text>
+              <JobCard job={item.job} />
+            </View>
+          )}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: Platform.OS === 'ios' ? 40 : 80,
+  },
+  savedDate: {
+    fontSize: 12,
+    marginBottom: 6,
+    marginLeft: 4,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  messageSubtext: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services
+import {
+  EnvironmentName,
+  canSwitchEnvironment,
+  getEnvironment,
+  getEnvironments,
+  setEnvironment,
+} from '../../services/config';
+import * as Database from '../../services/database';
+import { areJobFixturesEnabled, canUseJobFixtures, setJobFixturesEnabled } from '../../services/jobFixtures';
+import { refreshJobs, resetJobs } from '../../services/jobStore';
+import { resetPushRegistration, syncPushToken } from '../../services/pushTokens';
+
+export default function EnvironmentScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [activeName, setActiveName] = useState<EnvironmentName>(getEnvironment().name);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [useFixtures, setUseFixtures] = useState(areJobFixturesEnabled());
+
+  const handleToggleFixtures = async (enabled: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      await setJobFixturesEnabled(enabled);
+      setUseFixtures(enabled);
+    } catch (error) {
+      console.error('Error toggling job fixtures:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to change the fixture setting.');
+    }
+  };
+
+  const handleSelect = async (name: EnvironmentName) => {
+    if (name === activeName || isSwitching) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsSwitching(true);
+
+    try {
+      // The push token is registered with the previous backend, so move it to the new one
+      await resetPushRegistration();
+      await setEnvironment(name);
+      setActiveName(name);
+      syncPushToken();
+
+      // Cached jobs belong to the previous backend, so start from a clean slate
+      await Database.clearDatabase();
+      resetJobs();
+      await refreshJobs();
+    } catch (error) {
+      console.error('Error switching environment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to switch environment.');
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>API Environment</Text>
+        <View style={{ width: 40 }}>
+          {isSwitching && <ActivityIndicator size="small" color={colors.tint} />}
+        </View>
+      </View>
+
+      {!canSwitchEnvironment() ? (
+        <View style={styles.centeredContainer}>
+          <FontAwesome5 name="lock" size={40} color={colors.icon} />
+          <Text style={[styles.messageText, { color: colors.text }]}>
+            Switching environments is disabled in this build
+          </Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.contentContainer}>
+          <Text style={[styles.helperText, { color: colors.icon }]}>
+            Choose which backend the app talks to. Cached jobs are cleared when switching.
+          </Text>
+
+          {getEnvironments().map(environment => {
+            const isActive = environment.name === activeName;
+
+            return (
+              <TouchableOpacity
+                key={environment.name}
+                style={[
+                  styles.option,
+                  {
+                    backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F9FAFB',
+                    borderColor: isActive ? colors.tint : 'transparent',
+                  }
+                ]}
+                onPress={() => handleSelect(environment.name)}
+                disabled={isSwitching}
+              >
+                <View style={styles.optionContent}>
+                  <Text style={[styles.optionTitle, { color: colors.text }]}>{environment.label}</Text>
+                  <Text style={[styles.optionSubtitle, { color: colors.icon }]} numberOfLines={1}>
+                    {environment.apiUrl}
+                  </Text>
+                </View>
+                {isActive && <FontAwesome5 name="check" size={16} color={colors.tint} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {canUseJobFixtures() && (
+            <View
+              style={[
+                styles.option,
+                { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F9FAFB', borderColor: 'transparent' }
+              ]}
+            >
+              <View style={styles.optionContent}>
+                <Text style={[styles.optionTitle, { color: colors.text }]}>Use fixture jobs</Text>
+                <Text style={[styles.optionSubtitle, { color: colors.icon }]}>
+                  Job details come from a built-in sample posting instead of the API
+                </Text>
+              </View>
+              <Switch
+                value={useFixtures}
+                onValueChange={handleToggleFixtures}
+                trackColor={{ false: '#767577', true: colors.tint }}
+              />
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionSubtitle: {
+    fontSize: 12,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { Href, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services
+import { canSwitchEnvironment } from '../../services/config';
+
+interface SettingsRow {
+  icon: string;
+  title: string;
+  subtitle: string;
+  href: Href;
+}
+
+const getSettingsRows = (): SettingsRow[] => [
+  {
+    icon: 'bell',
+    title: 'Notifications',
+    subtitle: 'Job alerts, topics and how often you hear from us',
+    href: '/settings/notifications',
+  },
+  {
+    icon: 'search',
+    title: 'Saved Searches',
+    subtitle: 'Alerts for new matches of your searches',
+    href: '/saved-searches',
+  },
+  {
+    icon: 'sync-alt',
+    title: 'Background Sync',
+    subtitle: 'Keep jobs up to date while the app is closed',
+    href: '/settings/sync',
+  },
+  // Only available in builds that allow QA to switch backends
+  ...(canSwitchEnvironment()
+    ? [{ icon: 'server', title: 'API Environment', subtitle: 'Choose the backend the app talks to', href: '/settings/environment' as Href }]
+    : []),
+];
+
+export default function SettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Settings</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.contentContainer}>
+        {getSettingsRows().map(row => (
+          <TouchableOpacity
+            key={row.title}
+            style={[styles.option, { backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F9FAFB' }]}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              router.push(row.href);
+            }}
+          >
+            <View style={[styles.optionIcon, { backgroundColor: colorScheme === 'dark' ? '#1F2937' : '#EEF2FF' }]}>
+              <FontAwesome5 name={row.icon} size={16} color={colors.tint} />
+            </View>
+            <View style={styles.optionContent}>
+              <Text style={[styles.optionTitle, { color: colors.text }]}>{row.title}</Text>
+              <Text style={[styles.optionSubtitle, { color: colors.icon }]}>{row.subtitle}</Text>
+            </View>
+            <FontAwesome5 name="chevron-right" size={14} color={colors.icon} />
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  optionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionSubtitle: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,486 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+  Linking,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services
+import { JOB_TYPES, getCategories } from '../../services/api';
+import { getLocations } from '../../services/database';
+import { toggleFilterValue } from '../../services/jobFilters';
+import {
+  NOTIFICATION_FREQUENCY_OPTIONS,
+  NotificationPreferences,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../../services/notificationPreferences';
+import {
+  registerForPushNotificationsAsync,
+  syncNotificationPreferences,
+  unregisterPushNotificationsAsync,
+} from '../../services/notification';
+import {
+  NotificationPolicySettings,
+  formatTimeOfDay,
+  getNotificationPolicySettings,
+  updateNotificationPolicySettings,
+} from '../../services/notificationPolicy';
+import { getPushTokenState } from '../../services/pushTokens';
+import { usePushTokenState } from '../../hooks/usePushToken';
+
+// How many of the most common locations to offer
+const LOCATION_OPTION_LIMIT = 12;
+// Wait for the user to stop tapping before sending preferences to the backend
+const SYNC_DELAY_MS = 1000;
+// Quiet hours and digest times move in half-hour steps
+const TIME_STEP_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+type TimeSetting = 'quietHoursStart' | 'quietHoursEnd' | 'digestTime';
+
+type ListPreference = 'categories' | 'types' | 'locations';
+
+export default function NotificationSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [policy, setPolicy] = useState<NotificationPolicySettings | null>(null);
+  const pushToken = usePushTokenState();
+  const [locations, setLocations] = useState<string[]>([]);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isSyncPending, setIsSyncPending] = useState(false);
+  const syncTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    getNotificationPreferences().then(setPreferences);
+    getNotificationPolicySettings().then(setPolicy);
+    getLocations()
+      .then(counts => setLocations(counts.slice(0, LOCATION_OPTION_LIMIT).map(({ location }) => location)))
+      .catch(() => {});
+
+    // Send any change still waiting when the screen closes
+    return () => {
+      if (syncTimeout.current) {
+        clearTimeout(syncTimeout.current);
+        syncNotificationPreferences();
+      }
+    };
+  }, []);
+
+  const scheduleSync = () => {
+    if (syncTimeout.current) clearTimeout(syncTimeout.current);
+
+    syncTimeout.current = setTimeout(async () => {
+      syncTimeout.current = undefined;
+      setIsSyncPending(!(await syncNotificationPreferences()));
+    }, SYNC_DELAY_MS);
+  };
+
+  const handleChange = async (changes: Partial<NotificationPreferences>) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      setPreferences(await updateNotificationPreferences(changes));
+      scheduleSync();
+    } catch {
+      Alert.alert('Error', 'Failed to save notification settings. Please try again.');
+    }
+  };
+
+  const handleToggleList = (key: ListPreference, value: string) => {
+    if (!preferences) return;
+    handleChange({ [key]: toggleFilterValue(preferences[key], value) ?? [] });
+  };
+
+  const handlePolicyChange = async (changes: Partial<NotificationPolicySettings>) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      setPolicy(await updateNotificationPolicySettings(changes));
+    } catch {
+      Alert.alert('Error', 'Failed to save notification settings. Please try again.');
+    }
+  };
+
+  const handleStepTime = (key: TimeSetting, step: number) => {
+    if (!policy) return;
+    handlePolicyChange({ [key]: (policy[key] + step + MINUTES_PER_DAY) % MINUTES_PER_DAY });
+  };
+
+  const turnOff = async () => {
+    setIsUpdating(true);
+    try {
+      if (syncTimeout.current) {
+        clearTimeout(syncTimeout.current);
+        syncTimeout.current = undefined;
+      }
+      await unregisterPushNotificationsAsync();
+      setPreferences(await getNotificationPreferences());
+      setIsSyncPending(false);
+    } catch {
+      Alert.alert('Error', 'Could not turn off notifications. Check your connection and try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const turnOn = async () => {
+    setIsUpdating(true);
+    try {
+      setPreferences(await updateNotificationPreferences({ enabled: true }));
+      await registerForPushNotificationsAsync();
+      if (getPushTokenState().permission === 'denied') {
+        Alert.alert(
+          'Notifications are blocked',
+          'Allow notifications for Job Finder in your device settings to get job alerts.',
+          [
+            { text: 'Not now', style: 'cancel' },
+            { text: 'Open Settings', onPress: () => Linking.openSettings() },
+          ]
+        );
+      }
+    } catch {
+      Alert.alert('Error', 'Could not turn on notifications. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleToggleEnabled = (enabled: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (enabled) {
+      turnOn();
+      return;
+    }
+
+    Alert.alert(
+      'Turn off notifications?',
+      'This device will be unregistered and you will stop getting job alerts.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Turn Off', style: 'destructive', onPress: turnOff },
+      ]
+    );
+  };
+
+  const optionBackground = colorScheme === 'dark' ? '#2D3038' : '#F9FAFB';
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { backgroundColor: isActive ? colors.tint : optionBackground }]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: isActive ? '#FFFFFF' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderListSection = (key: ListPreference, title: string, options: { value: string; label: string }[]) => {
+    if (!preferences || options.length === 0) return null;
+    const selected = preferences[key];
+
+    return (
+      <>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{title}</Text>
+        <View style={styles.chips}>
+          {renderChip('all', 'Any', selected.length === 0, () => handleChange({ [key]: [] }))}
+          {options.map(option =>
+            renderChip(option.value, option.label, selected.includes(option.value), () => handleToggleList(key, option.value))
+          )}
+        </View>
+      </>
+    );
+  };
+
+  const renderTimeRow = (key: TimeSetting, label: string) => {
+    if (!policy) return null;
+
+    return (
+      <View style={[styles.option, { backgroundColor: optionBackground }]}>
+        <Text style={[styles.optionTitle, styles.optionContent, { color: colors.text }]}>{label}</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => handleStepTime(key, -TIME_STEP_MINUTES)}>
+          <FontAwesome5 name="minus" size={12} color={colors.tint} />
+        </TouchableOpacity>
+        <Text style={[styles.timeText, { color: colors.text }]}>{formatTimeOfDay(policy[key])}</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => handleStepTime(key, TIME_STEP_MINUTES)}>
+          <FontAwesome5 name="plus" size={12} color={colors.tint} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Keep locations chosen earlier even if no cached job is there any more
+  const locationOptions = Array.from(new Set([...(preferences?.locations ?? []), ...locations]));
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Notifications</Text>
+        <View style={{ width: 40 }}>
+          {isUpdating && <ActivityIndicator size="small" color={colors.tint} />}
+        </View>
+      </View>
+
+      {!preferences ? (
+        <View style={styles.centeredContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.contentContainer}>
+          <View style={[styles.option, { backgroundColor: optionBackground }]}>
+            <View style={styles.optionContent}>
+              <Text style={[styles.optionTitle, { color: colors.text }]}>Push notifications</Text>
+              <Text style={[styles.optionSubtitle, { color: colors.icon }]}>
+                Get told about new jobs that match your interests
+              </Text>
+            </View>
+            <Switch
+              value={preferences.enabled}
+              onValueChange={handleToggleEnabled}
+              disabled={isUpdating}
+              trackColor={{ false: '#767577', true: colors.tint }}
+            />
+          </View>
+
+          {preferences.enabled ? (
+            <>
+              {pushToken.permission === 'denied' && (
+                <TouchableOpacity
+                  style={[styles.notice, { backgroundColor: colorScheme === 'dark' ? '#3B2F1E' : '#FEF3C7' }]}
+                  onPress={() => Linking.openSettings()}
+                >
+                  <FontAwesome5 name="exclamation-triangle" size={14} color="#D97706" />
+                  <Text style={[styles.noticeText, { color: colors.text }]}>
+                    Notifications are blocked for Job Finder. Tap to allow them in your device settings.
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {pushToken.permission === 'unavailable' && (
+                <Text style={[styles.footnote, styles.statusNote, { color: colors.icon }]}>
+                  Push notifications need a physical device.
+                </Text>
+              )}
+              {pushToken.status === 'retrying' && pushToken.nextRetryAt && (
+                <Text style={[styles.footnote, styles.statusNote, { color: colors.icon }]}>
+                  This device couldn't be registered for job alerts yet. Trying again at{' '}
+                  {new Date(pushToken.nextRetryAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}.
+                </Text>
+              )}
+
+              {renderListSection(
+                'categories',
+                'Categories',
+                getCategories().map(category => ({ value: category.slug, label: category.name }))
+              )}
+              {renderListSection(
+                'types',
+                'Job types',
+                JOB_TYPES.map(type => ({ value: type, label: type }))
+              )}
+              {renderListSection(
+                'locations',
+                'Locations',
+                locationOptions.map(location => ({ value: location, label: location }))
+              )}
+
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Notify me at most</Text>
+              <View style={styles.chips}>
+                {NOTIFICATION_FREQUENCY_OPTIONS.map(option =>
+                  renderChip(option.value, option.label, preferences.maxFrequency === option.value, () => {
+                    if (preferences.maxFrequency !== option.value) handleChange({ maxFrequency: option.value });
+                  })
+                )}
+              </View>
+
+              {isSyncPending && (
+                <Text style={[styles.footnote, { color: colors.icon }]}>
+                  Your changes are saved and will be sent when you are back online.
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={[styles.footnote, { color: colors.icon }]}>
+              This device is not registered for push notifications. Saved search alerts still work while they are on.
+            </Text>
+          )}
+
+          {policy && (
+            <>
+              <Text style={[styles.sectionTitle, styles.policySectionTitle, { color: colors.text }]}>
+                Quiet hours & digest
+              </Text>
+              <View style={[styles.option, { backgroundColor: optionBackground }]}>
+                <View style={styles.optionContent}>
+                  <Text style={[styles.optionTitle, { color: colors.text }]}>Quiet hours</Text>
+                  <Text style={[styles.optionSubtitle, { color: colors.icon }]}>
+                    Hold job alerts overnight and get them in one notification when quiet hours end
+                  </Text>
+                </View>
+                <Switch
+                  value={policy.quietHoursEnabled}
+                  onValueChange={quietHoursEnabled => handlePolicyChange({ quietHoursEnabled })}
+                  trackColor={{ false: '#767577', true: colors.tint }}
+                />
+              </View>
+              {policy.quietHoursEnabled && (
+                <>
+                  {renderTimeRow('quietHoursStart', 'From')}
+                  {renderTimeRow('quietHoursEnd', 'Until')}
+                </>
+              )}
+
+              <View style={[styles.option, { backgroundColor: optionBackground }]}>
+                <View style={styles.optionContent}>
+                  <Text style={[styles.optionTitle, { color: colors.text }]}>Daily digest</Text>
+                  <Text style={[styles.optionSubtitle, { color: colors.icon }]}>
+                    Get all of the day's job alerts together in a single notification
+                  </Text>
+                </View>
+                <Switch
+                  value={policy.digestEnabled}
+                  onValueChange={digestEnabled => handlePolicyChange({ digestEnabled })}
+                  trackColor={{ false: '#767577', true: colors.tint }}
+                />
+              </View>
+              {policy.digestEnabled && renderTimeRow('digestTime', 'Send at')}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionSubtitle: {
+    fontSize: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  policySectionTitle: {
+    marginTop: 24,
+  },
+  stepButton: {
+    padding: 8,
+  },
+  timeText: {
+    fontSize: 14,
+    fontWeight: '500',
+    minWidth: 72,
+    textAlign: 'center',
+  },
+  footnote: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  statusNote: {
+    marginTop: 0,
+    marginBottom: 12,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+});
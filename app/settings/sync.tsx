@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Switch,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// Import services
+import {
+  BackgroundSyncSettings,
+  SYNC_INTERVAL_OPTIONS,
+  getBackgroundSyncSettings,
+  isBackgroundSyncAvailable,
+  updateBackgroundSyncSettings,
+} from '../../services/backgroundSync';
+
+export default function SyncSettingsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  const [settings, setSettings] = useState<BackgroundSyncSettings | null>(null);
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  useEffect(() => {
+    getBackgroundSyncSettings().then(setSettings);
+    isBackgroundSyncAvailable().then(setIsAvailable);
+  }, []);
+
+  const handleChange = async (changes: Partial<BackgroundSyncSettings>) => {
+    if (!settings) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    const previous = settings;
+    setSettings({ ...settings, ...changes });
+
+    try {
+      setSettings(await updateBackgroundSyncSettings(changes));
+    } catch {
+      setSettings(previous);
+      Alert.alert('Error', 'Failed to save sync settings. Please try again.');
+    }
+  };
+
+  const optionBackground = colorScheme === 'dark' ? '#2D3038' : '#F9FAFB';
+
+  const renderSwitch = (
+    key: 'wifiOnly' | 'skipOnLowBattery',
+    title: string,
+    subtitle: string
+  ) => (
+    <View style={[styles.option, { backgroundColor: optionBackground }]}>
+      <View style={styles.optionContent}>
+        <Text style={[styles.optionTitle, { color: colors.text }]}>{title}</Text>
+        <Text style={[styles.optionSubtitle, { color: colors.icon }]}>{subtitle}</Text>
+      </View>
+      <Switch
+        value={settings?.[key]}
+        onValueChange={(value) => handleChange({ [key]: value })}
+        disabled={!settings?.enabled}
+        trackColor={{ false: '#767577', true: colors.tint }}
+      />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['top', 'right', 'left']}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: colorScheme === 'dark' ? colors.background : '#FFFFFF' }]}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            router.back();
+          }}
+        >
+          <FontAwesome5 name="arrow-left" size={18} color={colors.icon} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Background Sync</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!settings ? (
+        <View style={styles.centeredContainer}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.contentContainer}>
+          <Text style={[styles.helperText, { color: colors.icon }]}>
+            Keep jobs and saved search alerts up to date while the app is closed.
+          </Text>
+
+          {!isAvailable && (
+            <View style={[styles.notice, { backgroundColor: colorScheme === 'dark' ? '#3B2F1E' : '#FEF3C7' }]}>
+              <FontAwesome5 name="exclamation-triangle" size={14} color="#D97706" />
+              <Text style={[styles.noticeText, { color: colors.text }]}>
+                Background refresh is turned off for this app in your device settings, so jobs only sync while the app is open.
+              </Text>
+            </View>
+          )}
+
+          <View style={[styles.option, { backgroundColor: optionBackground }]}>
+            <View style={styles.optionContent}>
+              <Text style={[styles.optionTitle, { color: colors.text }]}>Sync in the background</Text>
+              <Text style={[styles.optionSubtitle, { color: colors.icon }]}>
+                Check for new and updated jobs periodically
+              </Text>
+            </View>
+            <Switch
+              value={settings.enabled}
+              onValueChange={(enabled) => handleChange({ enabled })}
+              trackColor={{ false: '#767577', true: colors.tint }}
+            />
+          </View>
+
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Sync every</Text>
+          <View style={styles.intervalOptions}>
+            {SYNC_INTERVAL_OPTIONS.map(option => {
+              const isActive = option.value === settings.intervalMinutes;
+
+              return (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.intervalChip,
+                    {
+                      backgroundColor: isActive ? colors.tint : optionBackground,
+                      opacity: settings.enabled ? 1 : 0.5,
+                    }
+                  ]}
+                  onPress={() => handleChange({ intervalMinutes: option.value })}
+                  disabled={!settings.enabled || isActive}
+                >
+                  <Text style={[styles.intervalText, { color: isActive ? '#FFFFFF' : colors.text }]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.footnote, { color: colors.icon }]}>
+            The system decides the exact timing and may sync less often to save battery.
+          </Text>
+
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Conditions</Text>
+          {renderSwitch('wifiOnly', 'Wi-Fi only', 'Skip syncs on mobile data')}
+          {renderSwitch('skipOnLowBattery', 'Save battery', 'Skip syncs in low power mode or when the battery is low')}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(150, 150, 150, 0.2)',
+    zIndex: 10,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  backButton: {
+    padding: 8,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  optionContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  optionSubtitle: {
+    fontSize: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  intervalOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  intervalChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  intervalText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  footnote: {
+    fontSize: 12,
+    marginBottom: 16,
+  },
+  centeredContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+});
@@ -5,7 +5,6 @@ import {
   StyleSheet,
   TouchableOpacity,
   ScrollView,
-  TextInput,
   Platform,
   KeyboardAvoidingView,
 } from 'react-native';
@@ -14,7 +13,11 @@ import { useColorScheme } from 'react-native';
 import { Colors } from '../constants/Colors';
 import * as Haptics from 'expo-haptics';
 import { BlurView } from 'expo-blur';
+import Slider from '@react-native-community/slider';
 import { Category, JOB_TYPES } from '../services/api';
+import { getFacetCounts, getLocations, LocationCount } from '../services/database';
+import { FacetCounts, JobFilters, POSTED_WITHIN_OPTIONS, WORKPLACE_OPTIONS, toggleFilterValue } from '../services/jobFilters';
+import { SALARY_FILTER_MAX, SALARY_FILTER_STEP, formatAnnualAmount } from '../services/salary';
 
 interface FilterSheetProps {
   isVisible: boolean;
@@ -22,14 +25,12 @@ interface FilterSheetProps {
   onApplyFilters: (filters: FilterOptions) => void;
   categories: Category[];
   currentFilters: FilterOptions;
+  // Current search text, so option counts match what the list will show
+  searchQuery?: string;
 }
 
-export interface FilterOptions {
+export interface FilterOptions extends JobFilters {
   search?: string;
-  category?: string;
-  location?: string;
-  type?: string;
-  featured?: boolean;
 }
 
 export const FilterSheet: React.FC<FilterSheetProps> = ({
@@ -38,6 +39,7 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   onApplyFilters,
   categories,
   currentFilters,
+  searchQuery = '',
 }) => {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
@@ -45,12 +47,42 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   const [filters, setFilters] = useState<FilterOptions>(currentFilters || {});
   const [categoryExpanded, setCategoryExpanded] = useState(false);
   const [jobTypeExpanded, setJobTypeExpanded] = useState(false);
+  const [locationExpanded, setLocationExpanded] = useState(false);
+  const [locations, setLocations] = useState<LocationCount[]>([]);
+  const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null);
 
   useEffect(() => {
     // Update local filters when current filters change
     setFilters(currentFilters || {});
   }, [currentFilters]);
 
+  // Offer the locations of the jobs currently in the cache
+  useEffect(() => {
+    if (!isVisible) return;
+
+    getLocations()
+      .then(setLocations)
+      .catch(() => setLocations([]));
+  }, [isVisible]);
+
+  // Recount the options whenever the selection changes
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let isCancelled = false;
+    getFacetCounts(searchQuery, filters)
+      .then(counts => {
+        if (!isCancelled) setFacetCounts(counts);
+      })
+      .catch(() => {
+        if (!isCancelled) setFacetCounts(null);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isVisible, filters, searchQuery]);
+
   if (!isVisible) return null;
 
   const handleToggleCategory = () => {
@@ -65,22 +97,75 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
     if (jobTypeExpanded && categoryExpanded) setCategoryExpanded(false);
   };
 
+  // An empty value clears the selection; anything else toggles that option
   const handleSelectCategory = (categorySlug: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setFilters(prev => ({
       ...prev,
-      category: prev.category === categorySlug ? undefined : categorySlug,
+      categories: categorySlug ? toggleFilterValue(prev.categories, categorySlug) : undefined,
     }));
-    setCategoryExpanded(false);
   };
 
   const handleSelectJobType = (type: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setFilters(prev => ({
       ...prev,
-      type: prev.type === type ? undefined : type,
+      types: type ? toggleFilterValue(prev.types, type) : undefined,
+    }));
+  };
+
+  // Options that would leave no results can't be picked, but selected ones can always be cleared
+  const getOptionState = (counts: Record<string, number> | undefined, value: string, isSelected: boolean) => {
+    if (!counts) return { label: '', isDisabled: false };
+    const count = counts[value] || 0;
+    return { label: ` (${count})`, isDisabled: !isSelected && count === 0 };
+  };
+
+  const handleToggleLocation = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setLocationExpanded(!locationExpanded);
+  };
+
+  const handleSelectLocation = (location: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setFilters(prev => ({
+      ...prev,
+      location: prev.location === location || !location ? undefined : location,
+    }));
+    setLocationExpanded(false);
+  };
+
+  // Slider ends mean "no limit" on that side
+  const handleChangeMinSalary = (value: number) => {
+    setFilters(prev => ({
+      ...prev,
+      minSalary: value > 0 ? value : undefined,
+      maxSalary: prev.maxSalary != null && prev.maxSalary < value ? value : prev.maxSalary,
+    }));
+  };
+
+  const handleChangeMaxSalary = (value: number) => {
+    setFilters(prev => ({
+      ...prev,
+      maxSalary: value < SALARY_FILTER_MAX ? value : undefined,
+      minSalary: prev.minSalary != null && prev.minSalary > value ? value : prev.minSalary,
+    }));
+  };
+
+  const handleSelectPostedWithin = (value: JobFilters['postedWithin']) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setFilters(prev => ({
+      ...prev,
+      postedWithin: prev.postedWithin === value ? undefined : value,
+    }));
+  };
+
+  const handleSelectWorkplace = (value: JobFilters['workplace']) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setFilters(prev => ({
+      ...prev,
+      workplace: prev.workplace === value ? undefined : value,
     }));
-    setJobTypeExpanded(false);
   };
 
   const handleToggleFeatured = () => {
@@ -103,9 +188,18 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
   };
 
   const getActiveCategoryName = () => {
-    if (!filters.category) return 'All Categories';
-    const category = categories.find(c => c.slug === filters.category);
-    return category ? category.name : 'All Categories';
+    const selected = filters.categories || [];
+    if (selected.length === 0) return 'All Categories';
+    if (selected.length > 1) return `${selected.length} categories`;
+    const category = categories.find(c => c.slug === selected[0]);
+    return category ? category.name : '1 category';
+  };
+
+  const getActiveJobTypeName = () => {
+    const selected = filters.types || [];
+    if (selected.length === 0) return 'All Job Types';
+    if (selected.length > 1) return `${selected.length} job types`;
+    return selected[0];
   };
 
   return (
@@ -147,7 +241,7 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
             >
               <Text style={[
                 styles.dropdownButtonText,
-                { color: filters.category ? colors.tint : colors.text }
+                { color: filters.categories?.length ? colors.tint : colors.text }
               ]}>
                 {getActiveCategoryName()}
               </Text>
@@ -174,33 +268,122 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
                   <TouchableOpacity 
                     style={[
                       styles.dropdownItem,
-                      !filters.category && styles.activeDropdownItem
+                      !filters.categories?.length && styles.activeDropdownItem
                     ]}
                     onPress={() => handleSelectCategory('')}
                   >
                     <Text style={[
                       styles.dropdownItemText,
-                      !filters.category && { color: colors.tint, fontWeight: '500' },
-                      { color: !filters.category ? colors.tint : colors.text }
+                      !filters.categories?.length && { color: colors.tint, fontWeight: '500' },
+                      { color: !filters.categories?.length ? colors.tint : colors.text }
                     ]}>
                       All Categories
                     </Text>
                   </TouchableOpacity>
                   
-                  {categories.map((category) => (
+                  {categories.map((category) => {
+                    const isSelected = !!filters.categories?.includes(category.slug);
+                    const { label, isDisabled } = getOptionState(facetCounts?.categories, category.slug, isSelected);
+                    return (
+                      <TouchableOpacity 
+                        key={category.id}
+                        style={[
+                          styles.dropdownItem,
+                          styles.multiSelectItem,
+                          isSelected && styles.activeDropdownItem,
+                          isDisabled && styles.disabledDropdownItem
+                        ]}
+                        onPress={() => handleSelectCategory(category.slug)}
+                        disabled={isDisabled}
+                      >
+                        <Text style={[
+                          styles.dropdownItemText,
+                          { color: isSelected ? colors.tint : colors.text }
+                        ]}>
+                          {category.name}{label}
+                        </Text>
+                        <FontAwesome5
+                          name={isSelected ? 'check-square' : 'square'}
+                          solid={isSelected}
+                          size={16}
+                          color={isSelected ? colors.tint : colors.icon}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            )}
+          </View>
+          
+          {/* Location filter - picked from cached job locations */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Location</Text>
+            <TouchableOpacity
+              style={[
+                styles.dropdownButton,
+                { 
+                  backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
+                  borderColor: colorScheme === 'dark' ? '#3E4049' : '#E5E7EB' 
+                }
+              ]}
+              onPress={handleToggleLocation}
+            >
+              <Text style={[
+                styles.dropdownButtonText,
+                { color: filters.location ? colors.tint : colors.text }
+              ]}>
+                {filters.location || 'All Locations'}
+              </Text>
+              <FontAwesome5
+                name={locationExpanded ? 'chevron-up' : 'chevron-down'}
+                size={12}
+                color={colors.icon}
+              />
+            </TouchableOpacity>
+            
+            {locationExpanded && (
+              <View style={[
+                styles.dropdownList,
+                { 
+                  backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
+                  borderColor: colorScheme === 'dark' ? '#3E4049' : '#E5E7EB' 
+                }
+              ]}>
+                <ScrollView 
+                  style={styles.dropdownScroll}
+                  showsVerticalScrollIndicator={true}
+                  nestedScrollEnabled={true}
+                >
+                  <TouchableOpacity 
+                    style={[
+                      styles.dropdownItem,
+                      !filters.location && styles.activeDropdownItem
+                    ]}
+                    onPress={() => handleSelectLocation('')}
+                  >
+                    <Text style={[
+                      styles.dropdownItemText,
+                      { color: !filters.location ? colors.tint : colors.text }
+                    ]}>
+                      All Locations
+                    </Text>
+                  </TouchableOpacity>
+                  
+                  {locations.map(({ location, count }) => (
                     <TouchableOpacity 
-                      key={category.id}
+                      key={location}
                       style={[
                         styles.dropdownItem,
-                        filters.category === category.slug && styles.activeDropdownItem
+                        filters.location === location && styles.activeDropdownItem
                       ]}
-                      onPress={() => handleSelectCategory(category.slug)}
+                      onPress={() => handleSelectLocation(location)}
                     >
                       <Text style={[
                         styles.dropdownItemText,
-                        { color: filters.category === category.slug ? colors.tint : colors.text }
+                        { color: filters.location === location ? colors.tint : colors.text }
                       ]}>
-                        {category.name} {category.count ? `(${category.count})` : ''}
+                        {location} ({count})
                       </Text>
                     </TouchableOpacity>
                   ))}
@@ -209,23 +392,101 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
             )}
           </View>
           
-          {/* Location filter - changed to text input */}
+          {/* Workplace filter */}
           <View style={styles.section}>
-            <Text style={[styles.sectionTitle, { color: colors.text }]}>Location</Text>
-            <TextInput
-              style={[
-                styles.input,
-                { 
-                  backgroundColor: colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
-                  color: colors.text,
-                  borderColor: colorScheme === 'dark' ? '#3E4049' : '#E5E7EB' 
-                }
-              ]}
-              placeholder="Enter city, state, or 'Remote'..."
-              placeholderTextColor={colorScheme === 'dark' ? '#9BA1A6' : '#9CA3AF'}
-              value={filters.location}
-              onChangeText={(text) => setFilters(prev => ({ ...prev, location: text }))}
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Workplace</Text>
+            <View style={styles.optionRow}>
+              {WORKPLACE_OPTIONS.map(option => {
+                const isSelected = filters.workplace === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.optionChip,
+                      {
+                        backgroundColor: isSelected ? colors.tint : colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
+                        borderColor: isSelected ? colors.tint : colorScheme === 'dark' ? '#3E4049' : '#E5E7EB',
+                      }
+                    ]}
+                    onPress={() => handleSelectWorkplace(option.value)}
+                  >
+                    <Text style={[
+                      styles.optionChipText,
+                      { color: isSelected ? (colorScheme === 'dark' ? '#1F2937' : '#FFFFFF') : colors.text }
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+          
+          {/* Salary range filter */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>Salary (per year)</Text>
+              <Text style={[styles.sectionValue, { color: filters.minSalary != null || filters.maxSalary != null ? colors.tint : colors.icon }]}>
+                {formatAnnualAmount(filters.minSalary ?? 0)} - {filters.maxSalary != null ? formatAnnualAmount(filters.maxSalary) : `${formatAnnualAmount(SALARY_FILTER_MAX)}+`}
+              </Text>
+            </View>
+            <Text style={[styles.sliderLabel, { color: colors.icon }]}>Minimum</Text>
+            <Slider
+              style={styles.slider}
+              minimumValue={0}
+              maximumValue={SALARY_FILTER_MAX}
+              step={SALARY_FILTER_STEP}
+              value={filters.minSalary ?? 0}
+              onValueChange={handleChangeMinSalary}
+              minimumTrackTintColor={colors.tint}
+              maximumTrackTintColor={colorScheme === 'dark' ? '#3E4049' : '#E5E7EB'}
+              thumbTintColor={colors.tint}
+            />
+            <Text style={[styles.sliderLabel, { color: colors.icon }]}>Maximum</Text>
+            <Slider
+              style={styles.slider}
+              minimumValue={0}
+              maximumValue={SALARY_FILTER_MAX}
+              step={SALARY_FILTER_STEP}
+              value={filters.maxSalary ?? SALARY_FILTER_MAX}
+              onValueChange={handleChangeMaxSalary}
+              minimumTrackTintColor={colors.tint}
+              maximumTrackTintColor={colorScheme === 'dark' ? '#3E4049' : '#E5E7EB'}
+              thumbTintColor={colors.tint}
             />
+            <Text style={[styles.toggleDescription, { color: colors.icon }]}>
+              Hourly and monthly pay is converted to a yearly amount. Jobs without a salary are hidden.
+            </Text>
+          </View>
+          
+          {/* Posted within filter */}
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Posted Within</Text>
+            <View style={styles.optionRow}>
+              {POSTED_WITHIN_OPTIONS.map(option => {
+                const isSelected = filters.postedWithin === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.optionChip,
+                      {
+                        backgroundColor: isSelected ? colors.tint : colorScheme === 'dark' ? '#2D3038' : '#F3F4F6',
+                        borderColor: isSelected ? colors.tint : colorScheme === 'dark' ? '#3E4049' : '#E5E7EB',
+                      }
+                    ]}
+                    onPress={() => handleSelectPostedWithin(option.value)}
+                  >
+                    <Text style={[
+                      styles.optionChipText,
+                      { color: isSelected ? (colorScheme === 'dark' ? '#1F2937' : '#FFFFFF') : colors.text }
+                    ]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
           </View>
           
           {/* Job Type filter */}
@@ -243,9 +504,9 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
             >
               <Text style={[
                 styles.dropdownButtonText,
-                { color: filters.type ? colors.tint : colors.text }
+                { color: filters.types?.length ? colors.tint : colors.text }
               ]}>
-                {filters.type || 'All Job Types'}
+                {getActiveJobTypeName()}
               </Text>
               <FontAwesome5
                 name={jobTypeExpanded ? 'chevron-up' : 'chevron-down'}
@@ -270,36 +531,49 @@ export const FilterSheet: React.FC<FilterSheetProps> = ({
                   <TouchableOpacity 
                     style={[
                       styles.dropdownItem,
-                      !filters.type && styles.activeDropdownItem
+                      !filters.types?.length && styles.activeDropdownItem
                     ]}
                     onPress={() => handleSelectJobType('')}
                   >
                     <Text style={[
                       styles.dropdownItemText,
-                      !filters.type && { color: colors.tint, fontWeight: '500' },
-                      { color: !filters.type ? colors.tint : colors.text }
+                      !filters.types?.length && { color: colors.tint, fontWeight: '500' },
+                      { color: !filters.types?.length ? colors.tint : colors.text }
                     ]}>
                       All Job Types
                     </Text>
                   </TouchableOpacity>
                   
-                  {JOB_TYPES.map((type) => (
-                    <TouchableOpacity 
-                      key={type}
-                      style={[
-                        styles.dropdownItem,
-                        filters.type === type && styles.activeDropdownItem
-                      ]}
-                      onPress={() => handleSelectJobType(type)}
-                    >
-                      <Text style={[
-                        styles.dropdownItemText,
-                        { color: filters.type === type ? colors.tint : colors.text }
-                      ]}>
-                        {type}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                  {JOB_TYPES.map((type) => {
+                    const isSelected = !!filters.types?.includes(type);
+                    const { label, isDisabled } = getOptionState(facetCounts?.types, type, isSelected);
+                    return (
+                      <TouchableOpacity 
+                        key={type}
+                        style={[
+                          styles.dropdownItem,
+                          styles.multiSelectItem,
+                          isSelected && styles.activeDropdownItem,
+                          isDisabled && styles.disabledDropdownItem
+                        ]}
+                        onPress={() => handleSelectJobType(type)}
+                        disabled={isDisabled}
+                      >
+                        <Text style={[
+                          styles.dropdownItemText,
+                          { color: isSelected ? colors.tint : colors.text }
+                        ]}>
+                          {type}{label}
+                        </Text>
+                        <FontAwesome5
+                          name={isSelected ? 'check-square' : 'square'}
+                          solid={isSelected}
+                          size={16}
+                          color={isSelected ? colors.tint : colors.icon}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })}
                 </ScrollView>
               </View>
             )}
@@ -415,12 +689,37 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginBottom: 8,
   },
-  input: {
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sectionValue: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  optionChip: {
+    borderRadius: 16,
     borderWidth: 1,
-    fontSize: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionChipText: {
+    fontSize: 14,
+  },
+  sliderLabel: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  slider: {
+    width: '100%',
+    height: 36,
   },
   dropdownButton: {
     flexDirection: 'row',
@@ -452,6 +751,14 @@ const styles = StyleSheet.create({
   activeDropdownItem: {
     backgroundColor: 'rgba(79, 70, 229, 0.05)',
   },
+  multiSelectItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  disabledDropdownItem: {
+    opacity: 0.4,
+  },
   dropdownItemText: {
     fontSize: 16,
   },
@@ -6,40 +6,9 @@ import { useColorScheme } from 'react-native';
 import { Colors } from '../constants/Colors';
 import * as Haptics from 'expo-haptics';
 import { router } from 'expo-router';
-
-// Format salary function
-const formatSalary = (salary: any): string => {
-  if (!salary) return "Not specified";
-  
-  // If salary is already a string, return it directly
-  if (typeof salary === 'string') return salary;
-  
-  // Otherwise, format the salary object
-  try {
-    const { min, max, currency, period } = salary;
-    let formattedSalary = "";
-    
-    if (min && max) {
-      formattedSalary = `${currency || '$'}${min.toLocaleString()} - ${currency || '$'}${max.toLocaleString()}`;
-    } else if (min) {
-      formattedSalary = `${currency || '$'}${min.toLocaleString()}+`;
-    } else if (max) {
-      formattedSalary = `Up to ${currency || '$'}${max.toLocaleString()}`;
-    } else {
-      return "Competitive";
-    }
-    
-    // Add period if available
-    if (period) {
-      formattedSalary += ` ${period}`;
-    }
-    
-    return formattedSalary;
-  } catch (error) {
-    // Fallback for any parsing errors
-    return "Competitive";
-  }
-};
+import { toggleSavedJob } from '../services/jobStore';
+import { useIsJobSaved } from '../hooks/useJobs';
+import { formatSalary } from '../services/salary';
 
 // Calculate time since posting
 const getPostedTime = (postedDate: string | Date): string => {
@@ -79,15 +48,10 @@ interface JobCardProps {
 export const JobCard: React.FC<JobCardProps> = ({ job, onPress }) => {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  const isSaved = useIsJobSaved(job.id);
   
-  // Get first letter of company name with safety check
-  const getCompanyInitial = () => {
-    if (!job.company) return '?';
-    if (typeof job.company === 'string') {
-      return job.company.charAt(0).toUpperCase();
-    }
-    return '?';
-  };
+  // Get first letter of company name
+  const getCompanyInitial = () => job.company.charAt(0).toUpperCase();
   
   const handleViewDetails = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -111,6 +75,15 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onPress }) => {
     });
   };
 
+  const handleToggleSaved = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      await toggleSavedJob(job);
+    } catch (error) {
+      console.error('Error toggling saved job:', error);
+    }
+  };
+
   return (
     <TouchableOpacity
       style={[
@@ -206,6 +179,13 @@ export const JobCard: React.FC<JobCardProps> = ({ job, onPress }) => {
       </View>
       
       <View style={styles.buttonsContainer}>
+        <TouchableOpacity
+          style={[styles.bookmarkButton, { borderColor: isSaved ? colors.tint : colorScheme === 'dark' ? '#3E4049' : '#E5E7EB' }]}
+          onPress={handleToggleSaved}
+        >
+          <FontAwesome5 name="bookmark" solid={isSaved} size={14} color={isSaved ? colors.tint : colors.icon} />
+        </TouchableOpacity>
+        
         <TouchableOpacity 
           style={[styles.button, styles.viewButton, { borderColor: colors.tint }]} 
           onPress={handleViewDetails}
@@ -333,6 +313,14 @@ const styles = StyleSheet.create({
     flexGrow: 1,
     marginHorizontal: 4,
   },
+  bookmarkButton: {
+    width: 36,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginHorizontal: 4,
+  },
   viewButton: {
     borderWidth: 1,
     backgroundColor: 'transparent',
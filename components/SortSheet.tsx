@@ -0,0 +1,140 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { FontAwesome5 } from '@expo/vector-icons';
+import { useColorScheme } from 'react-native';
+import { Colors } from '../constants/Colors';
+import * as Haptics from 'expo-haptics';
+import { BlurView } from 'expo-blur';
+import { JobSort, SORT_OPTIONS } from '../services/jobSort';
+
+interface SortSheetProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onSelectSort: (sort: JobSort) => void;
+  currentSort: JobSort;
+}
+
+export const SortSheet: React.FC<SortSheetProps> = ({
+  isVisible,
+  onClose,
+  onSelectSort,
+  currentSort,
+}) => {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? 'light'];
+
+  if (!isVisible) return null;
+
+  const handleSelect = (sort: JobSort) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onSelectSort(sort);
+    onClose();
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <TouchableOpacity style={styles.backdrop} onPress={onClose} activeOpacity={1} />
+
+      <BlurView
+        intensity={90}
+        tint={colorScheme === 'dark' ? 'dark' : 'light'}
+        style={[
+          styles.container,
+          { backgroundColor: colorScheme === 'dark' ? 'rgba(25, 26, 31, 0.9)' : 'rgba(255, 255, 255, 0.9)' }
+        ]}
+      >
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.text }]}>Sort Jobs</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <FontAwesome5 name="times" size={18} color={colors.icon} />
+          </TouchableOpacity>
+        </View>
+
+        {SORT_OPTIONS.map(option => {
+          const isSelected = option.value === currentSort;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.option, isSelected && styles.activeOption]}
+              onPress={() => handleSelect(option.value)}
+            >
+              <View style={styles.optionIcon}>
+                <FontAwesome5 name={option.icon} size={14} color={isSelected ? colors.tint : colors.icon} />
+              </View>
+              <Text style={[styles.optionText, { color: isSelected ? colors.tint : colors.text }]}>
+                {option.label}
+              </Text>
+              {isSelected ? <FontAwesome5 name="check" size={14} color={colors.tint} /> : null}
+            </TouchableOpacity>
+          );
+        })}
+      </BlurView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    right: 0,
+    justifyContent: 'flex-end',
+    zIndex: 100,
+  },
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    position: 'relative',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(150, 150, 150, 0.2)',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 20,
+    padding: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+  },
+  activeOption: {
+    backgroundColor: 'rgba(79, 70, 229, 0.05)',
+  },
+  optionIcon: {
+    width: 28,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,46 @@
+/**
+ * Bundled exchange rates so salaries in different currencies can be compared offline.
+ * Rates are units of each currency per 1 USD and only need to be roughly current.
+ */
+
+export const EXCHANGE_RATES_BASE = 'USD';
+
+export const EXCHANGE_RATES_DATE = '2026-10-01';
+
+export const EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.86,
+  GBP: 0.75,
+  CAD: 1.38,
+  AUD: 1.52,
+  NZD: 1.71,
+  CHF: 0.8,
+  SEK: 9.45,
+  NOK: 10.05,
+  DKK: 6.42,
+  PLN: 3.66,
+  CZK: 20.9,
+  JPY: 148,
+  CNY: 7.12,
+  HKD: 7.78,
+  SGD: 1.29,
+  KRW: 1395,
+  INR: 88.5,
+  PHP: 57.5,
+  IDR: 16500,
+  MYR: 4.21,
+  THB: 32.4,
+  AED: 3.67,
+  SAR: 3.75,
+  ILS: 3.32,
+  TRY: 41.6,
+  ZAR: 17.4,
+  NGN: 1480,
+  KES: 129,
+  EGP: 48.3,
+  BRL: 5.35,
+  MXN: 18.4,
+  ARS: 1380,
+  CLP: 960,
+  COP: 3900,
+};
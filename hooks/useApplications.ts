@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getApplications, subscribeToApplications, TrackedApplication } from '@/services/applications';
+
+/**
+ * Keep a live list of tracked applications
+ */
+export function useApplications() {
+  const [applications, setApplications] = useState<TrackedApplication[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setApplications(await getApplications());
+    } catch (error) {
+      console.error('Error loading applications:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeToApplications(reload);
+  }, [reload]);
+
+  // Latest application per job, for quick "already applied" lookups
+  const getApplicationForJob = useCallback(
+    (jobId: string) => applications.find(application => application.jobId === jobId) || null,
+    [applications]
+  );
+
+  return { applications, isLoading, getApplicationForJob, reload };
+}
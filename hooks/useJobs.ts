@@ -0,0 +1,65 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Job } from '@/services/api';
+import { filterJobs, JobFilters } from '@/services/jobFilters';
+import {
+  JobsState,
+  getJobsState,
+  isJobSaved,
+  subscribeToJobs,
+  toggleSavedJob,
+} from '@/services/jobStore';
+
+/**
+ * Read a slice of the job state. The component re-renders only when the slice changes,
+ * so the selector must return values held in the state rather than build new ones.
+ */
+export function useJobsSelector<T>(selector: (state: JobsState) => T): T {
+  const getSnapshot = useCallback(() => selector(getJobsState()), [selector]);
+  return useSyncExternalStore(subscribeToJobs, getSnapshot);
+}
+
+const selectState = (state: JobsState) => state;
+
+/**
+ * The whole job state, for screens that show the feed
+ */
+export function useJobsState(): JobsState {
+  return useJobsSelector(selectState);
+}
+
+/**
+ * Whether the device is offline
+ */
+export function useIsOffline(): boolean {
+  return useJobsSelector(useCallback((state: JobsState) => state.isOffline, []));
+}
+
+/**
+ * A single job as currently known, updated when its details load or a sync changes it
+ */
+export function useJob(id: string | undefined): Job | undefined {
+  return useJobsSelector(useCallback((state: JobsState) => (id ? state.jobsById[id] : undefined), [id]));
+}
+
+/**
+ * Loaded feed jobs matching the filters, recomputed only when either changes
+ */
+export function useFilteredJobs(filters: JobFilters): Job[] {
+  const jobs = useJobsSelector(useCallback((state: JobsState) => state.jobs, []));
+  return useMemo(() => filterJobs(jobs, filters), [jobs, filters]);
+}
+
+/**
+ * Whether one job is bookmarked, without re-rendering when other bookmarks change
+ */
+export function useIsJobSaved(id: string): boolean {
+  return useJobsSelector(useCallback((state: JobsState) => isJobSaved(id, state.savedJobs), [id]));
+}
+
+/**
+ * Bookmarked jobs and the actions to change them
+ */
+export function useSavedJobs() {
+  const savedJobs = useJobsSelector(useCallback((state: JobsState) => state.savedJobs, []));
+  return { savedJobs, toggleSavedJob };
+}
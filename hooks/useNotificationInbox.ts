@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getInboxNotifications, InboxNotification, subscribeToInbox } from '@/services/notificationInbox';
+
+/**
+ * Keep a live list of received notifications
+ */
+export function useNotificationInbox() {
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setNotifications(await getInboxNotifications());
+    } catch (error) {
+      console.error('Error loading inbox:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeToInbox(reload);
+  }, [reload]);
+
+  const unreadCount = notifications.filter(notification => !notification.readAt).length;
+
+  return { notifications, isLoading, unreadCount, reload };
+}
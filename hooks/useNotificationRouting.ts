@@ -0,0 +1,64 @@
+import { useEffect } from 'react';
+import * as Notifications from 'expo-notifications';
+import { router, useRootNavigationState } from 'expo-router';
+import { AppRoute, getNotificationRoute, toHref } from '@/services/deepLinks';
+import { addToInbox } from '@/services/notificationInbox';
+import { markSavedSearchSeen } from '@/services/savedSearches';
+
+// The cold start response can also reach the listener, so each tap is only handled once
+let lastHandledResponseId: string | null = null;
+
+/**
+ * Navigate to a route from outside the screen that shows it
+ */
+export const openRoute = (route: AppRoute) => {
+  if (route.screen === 'jobs') {
+    // The job list is the root screen, so go back to it rather than stacking another
+    router.dismissTo(toHref(route));
+  } else {
+    router.push(toHref(route));
+  }
+};
+
+const openNotificationResponse = (response: Notifications.NotificationResponse) => {
+  const { identifier, content } = response.notification.request;
+  if (identifier === lastHandledResponseId) return;
+  lastHandledResponseId = identifier;
+
+  // A notification opened from the tray is already read
+  addToInbox([response.notification], true).catch(() => {});
+
+  const route = getNotificationRoute(content.data);
+  console.log('Notification tapped:', identifier, route);
+  if (!route) return;
+
+  // Opening a match straight from an alert counts as seeing the search's new matches
+  if (content.data?.type === 'saved_search' && content.data.savedSearchId) {
+    markSavedSearchSeen(Number(content.data.savedSearchId)).catch(() => {});
+  }
+
+  openRoute(route);
+};
+
+/**
+ * Open the right screen when a notification is tapped, including the tap that launched the app
+ */
+export function useNotificationRouting() {
+  const navigationState = useRootNavigationState();
+  const isNavigationReady = !!navigationState?.key;
+
+  useEffect(() => {
+    if (!isNavigationReady) return;
+
+    Notifications.getLastNotificationResponseAsync()
+      .then(response => {
+        if (response) openNotificationResponse(response);
+      })
+      .catch(error => {
+        console.error('Error reading the notification that opened the app:', error);
+      });
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(openNotificationResponse);
+    return () => subscription.remove();
+  }, [isNavigationReady]);
+}
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getOutboxItems, OutboxItem, subscribeToOutbox } from '@/services/outbox';
+
+/**
+ * Keep a live list of queued applications
+ */
+export function useOutbox() {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setItems(await getOutboxItems());
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeToOutbox(reload);
+  }, [reload]);
+
+  const pendingCount = items.filter(item => item.status === 'pending' || item.status === 'sending').length;
+  const failedCount = items.filter(item => item.status === 'failed').length;
+
+  return { items, isLoading, pendingCount, failedCount, reload };
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { CandidateProfile, EMPTY_PROFILE, getProfile, subscribeToProfile } from '@/services/profile';
+
+/**
+ * Keep the saved candidate profile in sync across screens
+ */
+export function useProfile() {
+  const [profile, setProfile] = useState<CandidateProfile>(EMPTY_PROFILE);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getProfile().then(stored => {
+      if (isMounted) {
+        setProfile(stored);
+        setIsLoading(false);
+      }
+    });
+
+    const unsubscribe = subscribeToProfile(setProfile);
+    return () => {
+      isMounted = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { profile, isLoading };
+}
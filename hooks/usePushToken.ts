@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { getPushTokenState, subscribeToPushToken } from '@/services/pushTokens';
+
+/**
+ * The notification permission and push token registration state
+ */
+export function usePushTokenState() {
+  return useSyncExternalStore(subscribeToPushToken, getPushTokenState);
+}
@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getSavedSearches, SavedSearch, subscribeToSavedSearches } from '@/services/savedSearches';
+
+/**
+ * Keep a live list of saved searches
+ */
+export function useSavedSearches() {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setSavedSearches(await getSavedSearches());
+    } catch (error) {
+      console.error('Error loading saved searches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    return subscribeToSavedSearches(reload);
+  }, [reload]);
+
+  return { savedSearches, isLoading, reload };
+}
@@ -0,0 +1,26 @@
+import { buildMatchQuery } from '../database';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+it('matches every word as a prefix', () => {
+  expect(buildMatchQuery('react native')).toBe('"react"* "native"*');
+  expect(buildMatchQuery('  Développeur, São Paulo ')).toBe('"Développeur"* "São"* "Paulo"*');
+});
+
+it('keeps quoted text together as a phrase', () => {
+  expect(buildMatchQuery('"product designer" remote')).toBe('"product designer" "remote"*');
+  expect(buildMatchQuery('"senior   ui/ux"')).toBe('"senior ui ux"');
+});
+
+it('treats FTS5 syntax as plain text', () => {
+  expect(buildMatchQuery('design OR NOT marketing')).toBe('"design"* "OR"* "NOT"* "marketing"*');
+  expect(buildMatchQuery('c++ title:lead NEAR(a b)')).toBe('"c"* "title"* "lead"* "NEAR"* "a"* "b"*');
+  expect(buildMatchQuery('"unterminated phrase')).toBe('"unterminated"* "phrase"*');
+});
+
+it('returns null when there is nothing to search for', () => {
+  expect(buildMatchQuery('')).toBeNull();
+  expect(buildMatchQuery('  "" -*() ')).toBeNull();
+});
@@ -0,0 +1,40 @@
+import { getNotificationRoute, parseDeepLink, toPath } from '../deepLinks';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+it('maps app scheme URLs, website links and paths to the same routes', () => {
+  const job = { screen: 'job', jobId: '123' };
+
+  expect(parseDeepLink('myapp://jobs/123')).toEqual(job);
+  expect(parseDeepLink('https://jobs-site-delta.vercel.app/jobs/123?utm_source=share')).toEqual(job);
+  expect(parseDeepLink('/jobs/123')).toEqual(job);
+  expect(parseDeepLink('myapp://saved-searches/4')).toEqual({ screen: 'jobs', savedSearchId: 4 });
+});
+
+it('ignores links it does not understand', () => {
+  expect(parseDeepLink('https://example.com/jobs/123')).toBeNull();
+  expect(parseDeepLink('otherapp://jobs/123')).toBeNull();
+  expect(parseDeepLink('myapp://jobs/123/unknown')).toBeNull();
+});
+
+it('routes push payloads, including the apply screen with its details', () => {
+  const route = getNotificationRoute({
+    type: 'new_job',
+    jobId: 'abc',
+    screen: 'jobApply',
+    jobTitle: 'Designer',
+    companyName: '',
+  });
+
+  expect(route).toEqual({ screen: 'jobApply', jobId: 'abc', jobTitle: 'Designer', companyName: undefined, location: undefined });
+  expect(toPath(route!)).toBe('/jobs/abc/apply?jobTitle=Designer');
+});
+
+it('routes saved search alerts to the match or the search results', () => {
+  expect(getNotificationRoute({ type: 'saved_search', savedSearchId: 2, jobId: 'abc' })).toEqual({ screen: 'job', jobId: 'abc' });
+  expect(getNotificationRoute({ type: 'saved_search', savedSearchId: 2 })).toEqual({ screen: 'jobs', savedSearchId: 2 });
+  expect(getNotificationRoute({ url: 'myapp://applications' })).toEqual({ screen: 'applications' });
+  expect(getNotificationRoute({ type: 'promo' })).toBeNull();
+});
@@ -0,0 +1,96 @@
+import { NetworkError, NotFoundError, ServerError } from '../errors';
+import { isAbortError, requestJson } from '../http';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(status === 304 ? null : JSON.stringify(body), { status, headers });
+
+const fetchMock = jest.fn();
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('retries server errors and network failures before succeeding', async () => {
+  fetchMock
+    .mockResolvedValueOnce(jsonResponse(503, {}))
+    .mockRejectedValueOnce(new TypeError('Network request failed'))
+    .mockResolvedValueOnce(jsonResponse(200, { ok: true }));
+
+  const response = await requestJson('https://api.test/jobs', { retryDelayMs: 1 });
+
+  expect(response.data).toEqual({ ok: true });
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+});
+
+it('gives up after the allowed retries with a typed error', async () => {
+  fetchMock.mockImplementation(async () => jsonResponse(500, { message: 'Down for maintenance' }));
+
+  const request = requestJson('https://api.test/jobs', { retries: 1, retryDelayMs: 1 });
+
+  await expect(request).rejects.toBeInstanceOf(ServerError);
+  await expect(request).rejects.toThrow('Down for maintenance');
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+it('does not retry client errors or non-GET requests', async () => {
+  fetchMock.mockResolvedValueOnce(jsonResponse(404, {}));
+  await expect(requestJson('https://api.test/jobs/1', { retryDelayMs: 1 })).rejects.toBeInstanceOf(NotFoundError);
+
+  fetchMock.mockRejectedValueOnce(new TypeError('Network request failed'));
+  await expect(requestJson('https://api.test/applications', { method: 'POST' })).rejects.toBeInstanceOf(NetworkError);
+
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+it('reads how long the server asks to wait before retrying', async () => {
+  fetchMock.mockResolvedValueOnce(jsonResponse(429, {}, { 'Retry-After': '120' }));
+
+  const request = requestJson('https://api.test/applications', { method: 'POST' });
+
+  await expect(request).rejects.toMatchObject({ status: 429, retryAfterMs: 120 * 1000 });
+});
+
+it('times out requests that never answer', async () => {
+  fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+  }));
+
+  await expect(requestJson('https://api.test/jobs', { timeoutMs: 10, retries: 0 })).rejects.toThrow('timed out');
+});
+
+it('reports cancellation by the caller as an abort', async () => {
+  const controller = new AbortController();
+  fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+  }));
+
+  const request = requestJson('https://api.test/jobs', { signal: controller.signal });
+  controller.abort();
+
+  const error = await request.catch(e => e);
+  expect(isAbortError(error)).toBe(true);
+  expect(fetchMock).toHaveBeenCalledTimes(1);
+});
+
+it('reuses the cached body when the server answers 304 Not Modified', async () => {
+  fetchMock.mockResolvedValueOnce(jsonResponse(200, { jobs: [1, 2] }, { ETag: '"v1"' }));
+  const first = await requestJson('https://api.test/feed', { useETag: true });
+
+  fetchMock.mockResolvedValueOnce(jsonResponse(304, null));
+  const second = await requestJson('https://api.test/feed', { useETag: true });
+
+  expect(first.notModified).toBe(false);
+  expect(second).toEqual({ data: { jobs: [1, 2] }, status: 304, notModified: true });
+  expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"v1"');
+});
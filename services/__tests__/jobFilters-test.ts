@@ -0,0 +1,114 @@
+import type { Job } from '../api';
+import { JobFilters, buildFilterClause, filterJobs, getFilterColumns } from '../jobFilters';
+
+const HOUR = 60 * 60 * 1000;
+
+const createJob = (id: string, changes: Partial<Job> = {}): Job => ({
+  id,
+  title: `Job ${id}`,
+  company: 'Acme',
+  companyLogo: null,
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: '',
+  description: '',
+  requirements: [],
+  benefits: [],
+  postedDate: new Date(Date.now() - HOUR).toISOString(),
+  featured: false,
+  category: 'engineering',
+  ...changes,
+});
+
+const jobs = [
+  createJob('usd', { salary: { min: 50000, max: 70000, currency: 'USD', period: 'year' }, workplace: 'Remote' }),
+  createJob('gbp-hourly', { salary: '£25/hr', location: 'London', type: 'Contract', workplace: 'Hybrid' }),
+  createJob('eur', { salary: '€90.000 - €110.000 per year', category: 'design', featured: true, workplace: 'On-site' }),
+  createJob('text', { salary: 'Competitive', location: 'Remote', postedDate: new Date(Date.now() - 3 * 24 * HOUR).toISOString() }),
+  createJob('old', { salary: '$120k', category: 'design', postedDate: new Date(Date.now() - 60 * 24 * HOUR).toISOString() }),
+];
+
+type JobRow = Record<string, string | number | null>;
+
+// Columns of the jobs table that the filters read
+const toRow = (job: Job): JobRow => {
+  const columns = getFilterColumns(job);
+  return {
+    id: job.id,
+    category: job.category,
+    location: job.location,
+    type: job.type,
+    featured: job.featured ? 1 : 0,
+    posted_date: job.postedDate,
+    salary_min_annual: columns.salaryMinAnnual,
+    salary_max_annual: columns.salaryMaxAnnual,
+    workplace_type: columns.workplaceType,
+  };
+};
+
+/**
+ * Evaluate the conditions from buildFilterClause against a row the way SQLite would
+ */
+const matchesClause = (row: JobRow, { conditions, params }: ReturnType<typeof buildFilterClause>): boolean => {
+  const values = [...params];
+
+  // Map every condition before checking them, so each one takes its own params
+  return conditions.map(condition => {
+    const [, column, operator, operand] = condition.match(/^jobs\.(\w+) (IN|=|>=|<=) (.+)$/)!;
+    const value = row[column];
+
+    if (operator === 'IN') {
+      return values.splice(0, operand.split('?').length - 1).includes(value!);
+    }
+
+    const param = operand === '?' ? values.shift()! : Number(operand);
+    // Comparisons with NULL are never true
+    if (value == null) return false;
+    if (operator === '=') return value === param;
+    if (operator === '>=') return value >= param;
+    return value <= param;
+  }).every(Boolean);
+};
+
+const filterRows = (filters: JobFilters): string[] => {
+  const clause = buildFilterClause(filters, 'jobs');
+  return jobs.map(toRow).filter(row => matchesClause(row, clause)).map(row => row.id as string);
+};
+
+const filterInMemory = (filters: JobFilters): string[] => filterJobs(jobs, filters).map(job => job.id);
+
+it('matches the same jobs in SQLite and in memory', () => {
+  const filterSets: JobFilters[] = [
+    {},
+    { categories: ['design'] },
+    { categories: ['design', 'engineering'], featured: true },
+    { location: 'London' },
+    { types: ['Contract'] },
+    { minSalary: 60000 },
+    { maxSalary: 60000 },
+    { minSalary: 55000, maxSalary: 100000 },
+    { postedWithin: '24h' },
+    { postedWithin: '7d', categories: ['engineering'] },
+    { workplace: 'remote' },
+    { workplace: 'hybrid', minSalary: 40000 },
+  ];
+
+  filterSets.forEach(filters => {
+    expect({ filters, ids: filterRows(filters) }).toEqual({ filters, ids: filterInMemory(filters) });
+  });
+});
+
+it('compares salaries as annual amounts in the base currency', () => {
+  // £25/hr is about $69k a year, and the euro range is about $105k-$128k
+  expect(filterInMemory({ minSalary: 60000, maxSalary: 100000 })).toEqual(['usd', 'gbp-hourly']);
+  expect(filterRows({ minSalary: 110000 })).toEqual(['eur', 'old']);
+});
+
+it('ignores jobs without a usable salary once a salary filter is set', () => {
+  expect(filterInMemory({ minSalary: 0 })).not.toContain('text');
+  expect(filterRows({ minSalary: 0 })).not.toContain('text');
+});
+
+it('reads the workplace from the location when the posting does not say', () => {
+  expect(filterInMemory({ workplace: 'remote' })).toEqual(['usd', 'text']);
+});
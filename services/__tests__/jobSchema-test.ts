@@ -0,0 +1,84 @@
+import { JobValidationError, getPayloadId, parseJob, parseJobs } from '../jobSchema';
+
+const payload = {
+  _id: 'abc',
+  title: '  Product Designer ',
+  company: { name: 'Acme', logo: 'https://example.com/logo.png' },
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: { min: '50,000', max: 70000, currency: '$', period: 'yearly' },
+  workplace: 'Hybrid',
+  description: 'Design things',
+  requirements: 'Figma\n\n  User research ',
+  benefits: ['Remote days', ' '],
+  createdAt: '2026-01-02T10:00:00Z',
+  featured: 1,
+  category: 'design',
+  latitude: 52.52,
+  longitude: 13.4,
+};
+
+it('normalizes the different shapes the API sends', () => {
+  expect(parseJob(payload)).toEqual({
+    id: 'abc',
+    title: 'Product Designer',
+    company: 'Acme',
+    companyLogo: 'https://example.com/logo.png',
+    location: 'Berlin',
+    type: 'Full-time',
+    salary: { min: 50000, max: 70000, currency: 'USD', period: 'year' },
+    workplace: 'Hybrid',
+    description: 'Design things',
+    requirements: ['Figma', 'User research'],
+    benefits: ['Remote days'],
+    postedDate: '2026-01-02T10:00:00.000Z',
+    featured: true,
+    category: 'design',
+    latitude: 52.52,
+    longitude: 13.4,
+  });
+});
+
+it('parses salary text and keeps descriptive text as written', () => {
+  expect(parseJob({ ...payload, salary: '£25/hr' }).salary).toEqual({ min: 25, max: 25, period: 'hour', currency: 'GBP' });
+  expect(parseJob({ ...payload, salary: ' Competitive ' }).salary).toBe('Competitive');
+  expect(parseJob({ ...payload, salary: null }).salary).toBe('');
+});
+
+it('reports every invalid field at once', () => {
+  const invalid = { id: 7, title: ' ', company: null, postedDate: 'soon', requirements: ['Figma', 3], latitude: '52' };
+
+  let error: unknown;
+  try {
+    parseJob(invalid, 'feed');
+  } catch (caught) {
+    error = caught;
+  }
+
+  expect(error).toBeInstanceOf(JobValidationError);
+  expect((error as JobValidationError).message).toMatch(/^Invalid job feed 7: /);
+  expect((error as JobValidationError).issues).toEqual([
+    'title: expected a non-empty string',
+    'company: expected a non-empty string, got null',
+    'requirements[1]: expected a string, got number',
+    'postedDate: expected a date, got "soon"',
+    'latitude: expected a number, got string',
+  ]);
+});
+
+it('rejects payloads that are not objects or have no ID', () => {
+  expect(() => parseJob(['abc'])).toThrow('Invalid job payload: expected an object, got array');
+  expect(getPayloadId({ id: '  ' })).toBeNull();
+  expect(getPayloadId({ id: 12 })).toBe('12');
+  expect(() => parseJob({ ...payload, _id: undefined })).toThrow('id: missing');
+});
+
+it('leaves out invalid jobs from a list instead of failing it', () => {
+  const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const jobs = parseJobs([payload, { id: 'broken' }, { ...payload, _id: 'def' }], 'feed');
+
+  expect(jobs.map(job => job.id)).toEqual(['abc', 'def']);
+  expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid job feed broken'));
+  warn.mockRestore();
+});
@@ -0,0 +1,135 @@
+import type { Job } from '../api';
+import { getFilterColumns } from '../jobFilters';
+import { JobSort, buildOrderClause, sortJobs } from '../jobSort';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const createJob = (id: string, day: number, changes: Partial<Job> = {}): Job => ({
+  id,
+  title: `Job ${id}`,
+  company: 'Acme',
+  companyLogo: null,
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: '',
+  description: '',
+  requirements: [],
+  benefits: [],
+  postedDate: new Date(Date.UTC(2026, 0, day)).toISOString(),
+  featured: false,
+  category: 'engineering',
+  ...changes,
+});
+
+const BERLIN = { latitude: 52.52, longitude: 13.4 };
+const HAMBURG = { latitude: 53.55, longitude: 9.99 };
+const PARIS = { latitude: 48.85, longitude: 2.35 };
+const POTSDAM = { latitude: 52.4, longitude: 13.06 };
+
+const jobs = [
+  createJob('a', 1, { company: 'beta labs', salary: { min: 50000, max: 70000, currency: 'USD', period: 'year' }, ...BERLIN }),
+  createJob('b', 2, { company: 'Acme', salary: '£25/hr', featured: true, ...BERLIN }),
+  createJob('c', 3, { company: 'Zeta', salary: 'Competitive' }),
+  createJob('d', 4, { company: 'acme', salary: '$70k', featured: true, ...PARIS }),
+  createJob('e', 5, { company: 'Beta Labs', salary: '$70,000 a year', ...HAMBURG }),
+  createJob('f', 6, { company: 'Omega', salary: '€90.000 - €110.000 per year' }),
+  createJob('g', 7, { company: 'Émile & Co' }),
+];
+
+type JobRow = Record<string, string | number | null>;
+
+// Columns of the jobs table that the sorts read
+const toRow = (job: Job): JobRow => ({
+  id: job.id,
+  company: job.company,
+  featured: job.featured ? 1 : 0,
+  posted_date: job.postedDate,
+  salary_max_annual: getFilterColumns(job).salaryMaxAnnual,
+  latitude: job.latitude ?? null,
+  longitude: job.longitude ?? null,
+});
+
+const compareValues = (a: string | number | null, b: string | number | null): number => {
+  // SQLite sorts NULL before every other value
+  if (a == null || b == null) return Number(b == null) - Number(a == null);
+  if (a < b) return -1;
+  return a > b ? 1 : 0;
+};
+
+// NOCASE only folds ASCII letters
+const foldCase = (value: string | number | null) => String(value).replace(/[A-Z]/g, letter => letter.toLowerCase());
+
+/**
+ * Order rows by an ORDER BY clause from buildOrderClause the way SQLite would
+ */
+const sortRows = (rows: JobRow[], { orderBy, params }: ReturnType<typeof buildOrderClause>): string[] => {
+  // The squared, scaled distance of the 'distance' sort, or null without coordinates
+  const [originLat, , originLng, lngScale] = params;
+  const getDistance = (row: JobRow) => {
+    if (row.latitude == null || row.longitude == null) return null;
+    const dLat = (row.latitude as number) - originLat;
+    const dLng = ((row.longitude as number) - originLng) * lngScale;
+    return dLat * dLat + dLng * dLng;
+  };
+
+  const terms = orderBy.split(',').map(term => {
+    const text = term.trim().replace(/\s+/g, ' ');
+    if (text.startsWith('((jobs.latitude - ?)')) return { column: 'distance', modifier: 'ASC' };
+    const [, column, modifier = 'ASC'] = text.match(/^jobs\.(\w+)(?: (IS NULL|COLLATE NOCASE ASC|ASC|DESC))?$/)!;
+    return { column, modifier };
+  });
+
+  return [...rows].sort((a, b) => {
+    for (const { column, modifier } of terms) {
+      let result: number;
+      if (column === 'distance') {
+        result = compareValues(getDistance(a), getDistance(b));
+      } else if (modifier === 'IS NULL') {
+        result = Number(a[column] == null) - Number(b[column] == null);
+      } else if (modifier === 'COLLATE NOCASE ASC') {
+        result = compareValues(foldCase(a[column]), foldCase(b[column]));
+      } else {
+        result = compareValues(a[column], b[column]) * (modifier === 'DESC' ? -1 : 1);
+      }
+      if (result !== 0) return result;
+    }
+    return 0;
+  }).map(row => row.id as string);
+};
+
+it('orders jobs the same way in SQLite and in memory', () => {
+  const sorts: JobSort[] = ['newest', 'salary', 'company', 'relevance', 'distance'];
+
+  sorts.forEach(sort => {
+    [null, POTSDAM].forEach(origin => {
+      const clause = buildOrderClause(sort, { table: 'jobs', origin });
+      expect({ sort, origin, ids: sortRows(jobs.map(toRow), clause) })
+        .toEqual({ sort, origin, ids: sortJobs(jobs, sort, { origin }).map(job => job.id) });
+    });
+  });
+});
+
+it('sorts by annual salary with featured and newer jobs winning ties, and no salary last', () => {
+  expect(sortJobs(jobs, 'salary').map(job => job.id)).toEqual(['f', 'd', 'e', 'a', 'b', 'g', 'c']);
+});
+
+it('sorts companies ignoring ASCII case, with accented names after Z as in SQLite', () => {
+  expect(sortJobs(jobs, 'company').map(job => job.id)).toEqual(['d', 'b', 'e', 'a', 'f', 'c', 'g']);
+});
+
+it('breaks distance ties with featured and newer jobs first', () => {
+  expect(sortJobs(jobs, 'distance', { origin: POTSDAM }).map(job => job.id)).toEqual(['b', 'a', 'e', 'd', 'g', 'f', 'c']);
+});
+
+it('sorts by distance from the origin, with jobs without coordinates last', () => {
+  const located = [
+    createJob('far', 1, { latitude: 48.85, longitude: 2.35 }),
+    createJob('unknown', 2),
+    createJob('near', 3, { latitude: 52.52, longitude: 13.4 }),
+  ];
+
+  const ids = sortJobs(located, 'distance', { origin: { latitude: 52.4, longitude: 13.06 } }).map(job => job.id);
+  expect(ids).toEqual(['near', 'far', 'unknown']);
+});
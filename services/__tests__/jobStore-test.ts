@@ -0,0 +1,126 @@
+import { Job, fetchJobById } from '../api';
+import { getJobById, initialJobsState, jobsReducer } from '../jobStore';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('../api', () => ({
+  JOBS_PAGE_SIZE: 20,
+  fetchJobs: jest.fn(),
+  fetchJobById: jest.fn(),
+  getCategories: jest.fn(() => []),
+}));
+jest.mock('../database', () => ({
+  getJobById: jest.fn(async () => null),
+  saveJobs: jest.fn(async () => {}),
+}));
+jest.mock('../sync', () => ({ syncJobs: jest.fn() }));
+jest.mock('../savedSearches', () => ({ evaluateSavedSearches: jest.fn() }));
+jest.mock('../backgroundSync', () => ({ getBackgroundSyncSettings: jest.fn() }));
+
+const fetchJobByIdMock = fetchJobById as jest.Mock;
+
+const createJob = (id: string, changes: Partial<Job> = {}): Job => ({
+  id,
+  title: `Job ${id}`,
+  company: 'Acme',
+  companyLogo: null,
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: '',
+  description: '',
+  requirements: [],
+  benefits: [],
+  postedDate: '2026-01-01T00:00:00.000Z',
+  featured: false,
+  category: 'engineering',
+  latitude: null,
+  longitude: null,
+  ...changes,
+});
+
+const feedPage = (jobs: Job[]) => ({ jobs, page: 1, nextCursor: null, hasMore: false });
+
+beforeEach(() => {
+  fetchJobByIdMock.mockReset();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('keeps unchanged slices when the feed or status updates', () => {
+  const loaded = jobsReducer(initialJobsState, { type: 'feedLoaded', ...feedPage([createJob('1')]) });
+  const offline = jobsReducer(loaded, { type: 'statusChanged', status: { isOffline: true } });
+
+  expect(offline.jobs).toBe(loaded.jobs);
+  expect(offline.jobsById).toBe(loaded.jobsById);
+  expect(jobsReducer(offline, { type: 'statusChanged', status: { isOffline: true } })).toBe(offline);
+});
+
+it('keeps fetched details when the feed reloads a job without them', () => {
+  const detailed = createJob('1', { description: 'Build things', requirements: ['TypeScript'] });
+  const withDetails = jobsReducer(initialJobsState, { type: 'jobLoaded', job: detailed });
+  const reloaded = jobsReducer(withDetails, { type: 'feedLoaded', ...feedPage([createJob('1', { title: 'Renamed' })]) });
+
+  expect(reloaded.jobsById['1']).toMatchObject({ title: 'Renamed', description: 'Build things', requirements: ['TypeScript'] });
+});
+
+it('drops removed jobs from the feed and the index', () => {
+  const loaded = jobsReducer(initialJobsState, { type: 'feedLoaded', ...feedPage([createJob('1'), createJob('2')]) });
+  const synced = jobsReducer(loaded, { type: 'jobsSynced', upserted: [], removedIds: ['1'] });
+
+  expect(synced.jobs.map(job => job.id)).toEqual(['2']);
+  expect(Object.keys(synced.jobsById)).toEqual(['2']);
+});
+
+it('shares one request between concurrent lookups of the same job', async () => {
+  let resolveFetch: (job: Job) => void = () => {};
+  fetchJobByIdMock.mockImplementation(() => new Promise(resolve => {
+    resolveFetch = resolve;
+  }));
+
+  const first = getJobById('42');
+  const second = getJobById('42');
+  // Let both lookups get past the local database and network checks
+  await new Promise(resolve => setTimeout(resolve, 0));
+  resolveFetch(createJob('42', { description: 'Details' }));
+
+  expect(await first).toEqual(await second);
+  expect(fetchJobByIdMock).toHaveBeenCalledTimes(1);
+});
+
+it('only cancels a shared request once every caller has given up', async () => {
+  const signals: AbortSignal[] = [];
+  fetchJobByIdMock.mockImplementation((_id: string, signal: AbortSignal) => {
+    signals.push(signal);
+    return new Promise(() => {});
+  });
+
+  const firstCaller = new AbortController();
+  const secondCaller = new AbortController();
+  const first = getJobById('7', firstCaller.signal).catch(error => error);
+  const second = getJobById('7', secondCaller.signal).catch(error => error);
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  firstCaller.abort();
+  expect((await first).name).toBe('AbortError');
+  expect(signals[0].aborted).toBe(false);
+
+  secondCaller.abort();
+  expect((await second).name).toBe('AbortError');
+  expect(signals[0].aborted).toBe(true);
+});
+
+it('does not start a fetch for a caller that gave up during the cache checks', async () => {
+  const caller = new AbortController();
+  const lookup = getJobById('9', caller.signal).catch(error => error);
+  caller.abort();
+
+  expect((await lookup).name).toBe('AbortError');
+  expect(fetchJobByIdMock).not.toHaveBeenCalledWith('9', expect.anything());
+});
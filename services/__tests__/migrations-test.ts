@@ -0,0 +1,122 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { Migration, migrations, runMigrations } from '../migrations';
+
+/**
+ * Minimal in-memory stand-in for a SQLite connection that tracks
+ * user_version and rolls it back when a transaction fails
+ */
+const createFakeDatabase = (initialVersion = 0) => {
+  const state = { version: initialVersion, statements: [] as string[] };
+
+  const db = {
+    getFirstAsync: jest.fn(async () => ({ user_version: state.version })),
+    execAsync: jest.fn(async (sql: string) => {
+      state.statements.push(sql);
+      const match = sql.match(/PRAGMA user_version = (\d+)/);
+      if (match) {
+        state.version = Number(match[1]);
+      }
+    }),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => {
+      const snapshot = { version: state.version, count: state.statements.length };
+      try {
+        await task();
+      } catch (error) {
+        state.version = snapshot.version;
+        state.statements.length = snapshot.count;
+        throw error;
+      }
+    }),
+  };
+
+  return { db: db as unknown as SQLiteDatabase, state };
+};
+
+const createMigration = (version: number, up?: Migration['up']): Migration => ({
+  version,
+  name: `migration ${version}`,
+  up: up ?? (async (db) => {
+    await db.execAsync(`-- step ${version}`);
+  }),
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('runs pending migrations in order and records the version', async () => {
+  const { db, state } = createFakeDatabase();
+
+  const version = await runMigrations(db, [createMigration(1), createMigration(2), createMigration(3)]);
+
+  expect(version).toBe(3);
+  expect(state.version).toBe(3);
+  expect(state.statements).toEqual([
+    '-- step 1',
+    'PRAGMA user_version = 1',
+    '-- step 2',
+    'PRAGMA user_version = 2',
+    '-- step 3',
+    'PRAGMA user_version = 3',
+  ]);
+});
+
+it('skips migrations that were already applied', async () => {
+  const { db, state } = createFakeDatabase(2);
+
+  await runMigrations(db, [createMigration(1), createMigration(2), createMigration(3)]);
+
+  expect(state.statements).toEqual(['-- step 3', 'PRAGMA user_version = 3']);
+});
+
+it('does nothing when the schema is current', async () => {
+  const { db, state } = createFakeDatabase(2);
+
+  const version = await runMigrations(db, [createMigration(1), createMigration(2)]);
+
+  expect(version).toBe(2);
+  expect(state.statements).toEqual([]);
+});
+
+it('rolls back a failing migration and stops', async () => {
+  const { db, state } = createFakeDatabase();
+  const third = createMigration(3);
+  const up = jest.spyOn(third, 'up');
+
+  const failing = createMigration(2, async (database) => {
+    await database.execAsync('-- partial step 2');
+    throw new Error('boom');
+  });
+
+  await expect(runMigrations(db, [createMigration(1), failing, third])).rejects.toThrow('boom');
+
+  expect(state.version).toBe(1);
+  expect(state.statements).toEqual(['-- step 1', 'PRAGMA user_version = 1']);
+  expect(up).not.toHaveBeenCalled();
+});
+
+it('refuses to open a database from a newer app version', async () => {
+  const { db } = createFakeDatabase(5);
+
+  await expect(runMigrations(db, [createMigration(1)])).rejects.toThrow('newer than this app supports');
+});
+
+it('rejects migrations that are out of order', async () => {
+  const { db } = createFakeDatabase();
+
+  await expect(runMigrations(db, [createMigration(2), createMigration(1)])).rejects.toThrow('Invalid migration order');
+});
+
+it('keeps the shipped migration list strictly increasing from 1', () => {
+  expect(migrations[0].version).toBe(1);
+  migrations.forEach((migration, index) => {
+    if (index > 0) {
+      expect(migration.version).toBe(migrations[index - 1].version + 1);
+    }
+  });
+});
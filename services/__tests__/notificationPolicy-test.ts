@@ -0,0 +1,53 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import {
+  DEFAULT_NOTIFICATION_POLICY,
+  deliverJobNotification,
+  getDeliveryTime,
+  isWithinQuietHours,
+} from '../notificationPolicy';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-notifications', () => ({
+  scheduleNotificationAsync: jest.fn(async () => 'digest-id'),
+  cancelScheduledNotificationAsync: jest.fn(async () => {}),
+  SchedulableTriggerInputTypes: { DATE: 'date' },
+}));
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes);
+
+it('treats quiet hours that wrap past midnight as one range', () => {
+  const settings = { ...DEFAULT_NOTIFICATION_POLICY, quietHoursEnabled: true };
+
+  expect(isWithinQuietHours(settings, at(1, 23))).toBe(true);
+  expect(isWithinQuietHours(settings, at(2, 6, 59))).toBe(true);
+  expect(isWithinQuietHours(settings, at(2, 7))).toBe(false);
+  expect(isWithinQuietHours({ ...settings, quietHoursEnabled: false }, at(1, 23))).toBe(false);
+});
+
+it('holds alerts until quiet hours end or the next digest', () => {
+  const quiet = { ...DEFAULT_NOTIFICATION_POLICY, quietHoursEnabled: true };
+  const digest = { ...DEFAULT_NOTIFICATION_POLICY, digestEnabled: true };
+
+  expect(getDeliveryTime(quiet, at(1, 12))).toBeNull();
+  expect(getDeliveryTime(quiet, at(1, 23))).toBe(at(2, 7).getTime());
+  expect(getDeliveryTime(digest, at(1, 12))).toBe(at(1, 18).getTime());
+  expect(getDeliveryTime(digest, at(1, 19))).toBe(at(2, 18).getTime());
+  // A digest due during quiet hours waits until they end
+  expect(getDeliveryTime({ ...digest, quietHoursEnabled: true, digestTime: 23 * 60 }, at(1, 12)))
+    .toBe(at(2, 7).getTime());
+});
+
+it('keeps every alert held at the same time', async () => {
+  await AsyncStorage.setItem('notification_policy', JSON.stringify({ ...DEFAULT_NOTIFICATION_POLICY, digestEnabled: true }));
+
+  await Promise.all(['One', 'Two', 'Three'].map(title =>
+    deliverJobNotification({ title, body: `${title} at Acme`, data: { type: 'new_job', jobId: title } })
+  ));
+
+  const held = JSON.parse((await AsyncStorage.getItem('held_job_notifications'))!);
+  expect(held.map((notification: { title: string }) => notification.title)).toEqual(['One', 'Two', 'Three']);
+  expect((Notifications.scheduleNotificationAsync as jest.Mock).mock.calls.at(-1)[0].content.title).toBe('3 new jobs today');
+});
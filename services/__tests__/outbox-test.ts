@@ -0,0 +1,173 @@
+import { submitApplication } from '../api';
+import { recordApplication } from '../applications';
+import { openDatabase } from '../database';
+import { ServerError } from '../errors';
+import { deleteDocument } from '../files';
+import { processOutbox, removeOutboxItem } from '../outbox';
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('../api', () => ({ submitApplication: jest.fn() }));
+jest.mock('../applications', () => ({ recordApplication: jest.fn(async () => {}) }));
+jest.mock('../database', () => ({ openDatabase: jest.fn() }));
+jest.mock('../files', () => ({ persistDocument: jest.fn(), deleteDocument: jest.fn(async () => {}) }));
+
+const submitApplicationMock = submitApplication as jest.Mock;
+
+/**
+ * In-memory stand-in for the outbox table holding a single queued application
+ */
+const createFakeDatabase = (attempts = 0) => {
+  const row = {
+    id: 1,
+    job_id: 'job-1',
+    job_title: 'Designer',
+    company: 'Acme',
+    email: 'ada@example.com',
+    phone: '555-0100',
+    resume_uri: 'file:///outbox/resume.pdf',
+    resume_name: 'resume.pdf',
+    resume_type: 'application/pdf',
+    idempotency_key: 'key-1',
+    status: 'pending',
+    attempts,
+    last_error: null as string | null,
+    next_attempt_at: new Date(0).toISOString(),
+    created_at: new Date(0).toISOString(),
+    updated_at: new Date(0).toISOString(),
+  };
+
+  return {
+    row,
+    runAsync: jest.fn(async (sql: string, params: unknown[] = []) => {
+      if (sql.startsWith('DELETE')) {
+        if (row.status === 'sending') return { changes: 0 };
+        row.status = 'deleted';
+        return { changes: 1 };
+      }
+      if (sql.includes("WHERE status = 'sending'")) {
+        if (row.status === 'sending') row.status = 'pending';
+        return;
+      }
+      const [status, attempts, lastError, nextAttemptAt] = params as [string, number | null, string | null, string | null];
+      row.status = status;
+      row.attempts = attempts ?? row.attempts;
+      row.last_error = lastError;
+      row.next_attempt_at = nextAttemptAt ?? row.next_attempt_at;
+    }),
+    getAllAsync: jest.fn(async () => (row.status === 'pending' ? [{ ...row }] : [])),
+    getFirstAsync: jest.fn(async () => (row.status === 'pending' ? { next_attempt_at: row.next_attempt_at } : null)),
+  };
+};
+
+let db: ReturnType<typeof createFakeDatabase>;
+
+const useDatabase = (attempts?: number) => {
+  db = createFakeDatabase(attempts);
+  (openDatabase as jest.Mock).mockResolvedValue(db);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: 0, doNotFake: ['nextTick', 'setImmediate'] });
+  submitApplicationMock.mockReset();
+  (recordApplication as jest.Mock).mockClear();
+  (deleteDocument as jest.Mock).mockClear();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+it('sends queued applications with their idempotency key and records them', async () => {
+  useDatabase();
+  submitApplicationMock.mockResolvedValue({ applicationId: 'app-1', submittedAt: '2026-01-01T00:00:00.000Z' });
+
+  await processOutbox();
+
+  expect(submitApplicationMock).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1', idempotencyKey: 'key-1' }));
+  expect(db.row).toMatchObject({ status: 'sent', attempts: 1 });
+  expect(recordApplication).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-1', remoteId: 'app-1' }));
+});
+
+it('retries server errors with backoff', async () => {
+  useDatabase();
+  submitApplicationMock.mockRejectedValue(new ServerError(503));
+
+  await processOutbox();
+
+  expect(db.row).toMatchObject({
+    status: 'pending',
+    attempts: 1,
+    last_error: 'Server error (status 503)',
+    next_attempt_at: new Date(30 * 1000).toISOString(),
+  });
+
+  submitApplicationMock.mockRejectedValue(new ServerError(503));
+  await jest.advanceTimersByTimeAsync(30 * 1000);
+
+  expect(db.row).toMatchObject({ status: 'pending', attempts: 2, next_attempt_at: new Date(90 * 1000).toISOString() });
+});
+
+it('fails right away when the server rejects the application', async () => {
+  useDatabase();
+  submitApplicationMock.mockRejectedValue(new ServerError(422, 'This job is no longer accepting applications'));
+
+  await processOutbox();
+
+  expect(db.row).toMatchObject({
+    status: 'failed',
+    attempts: 1,
+    last_error: 'This job is no longer accepting applications',
+  });
+  expect(jest.getTimerCount()).toBe(0);
+});
+
+it('retries request timeouts like server errors', async () => {
+  useDatabase();
+  submitApplicationMock.mockRejectedValue(new ServerError(408, 'Request timeout'));
+
+  await processOutbox();
+
+  expect(db.row).toMatchObject({ status: 'pending', attempts: 1, next_attempt_at: new Date(30 * 1000).toISOString() });
+});
+
+it('waits as long as the server asks when rate limited', async () => {
+  useDatabase();
+  submitApplicationMock.mockRejectedValue(new ServerError(429, 'Too many requests', 5 * 60 * 1000));
+
+  await processOutbox();
+
+  expect(db.row).toMatchObject({ status: 'pending', attempts: 1, next_attempt_at: new Date(5 * 60 * 1000).toISOString() });
+});
+
+it('gives up after the last attempt', async () => {
+  useDatabase(5);
+  submitApplicationMock.mockRejectedValue(new ServerError(500));
+
+  await processOutbox();
+
+  expect(db.row).toMatchObject({ status: 'failed', attempts: 6 });
+});
+
+it('keeps an application that is being sent when asked to remove it', async () => {
+  useDatabase();
+  let finishUpload = () => {};
+  submitApplicationMock.mockImplementation(() => new Promise(resolve => {
+    finishUpload = () => resolve({ applicationId: 'app-1', submittedAt: '2026-01-01T00:00:00.000Z' });
+  }));
+
+  const processing = processOutbox();
+  await new Promise(resolve => setImmediate(resolve));
+  const item = { id: 1, resume: { uri: db.row.resume_uri } } as Parameters<typeof removeOutboxItem>[0];
+
+  expect(await removeOutboxItem(item)).toBe(false);
+  expect(deleteDocument).not.toHaveBeenCalled();
+
+  finishUpload();
+  await processing;
+
+  expect(db.row.status).toBe('sent');
+  expect(await removeOutboxItem(item)).toBe(true);
+});
@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { requestJson } from '../http';
+import { getPushTokenState, syncPushToken, unregisterPushToken } from '../pushTokens';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock.js')
+);
+jest.mock('expo-device', () => ({ isDevice: true, modelName: 'Test Phone' }));
+jest.mock('expo-notifications', () => ({
+  getPermissionsAsync: jest.fn(),
+  requestPermissionsAsync: jest.fn(),
+  getExpoPushTokenAsync: jest.fn(),
+  addPushTokenListener: jest.fn(() => ({ remove: jest.fn() })),
+}));
+jest.mock('../config', () => ({ getApiUrl: () => 'https://api.test' }));
+jest.mock('../http', () => ({ requestJson: jest.fn() }));
+
+const requestJsonMock = requestJson as jest.Mock;
+const getExpoPushTokenMock = Notifications.getExpoPushTokenAsync as jest.Mock;
+
+const requestedPaths = () => requestJsonMock.mock.calls.map(([url, options]) => ({
+  path: url.replace('https://api.test', ''),
+  token: JSON.parse(options.body).token,
+}));
+
+beforeEach(async () => {
+  jest.useRealTimers();
+  await AsyncStorage.clear();
+  requestJsonMock.mockReset();
+  (Notifications.getPermissionsAsync as jest.Mock).mockResolvedValue({ status: 'granted', canAskAgain: true });
+});
+
+it('registers a rotated token and unregisters the one it replaced', async () => {
+  await AsyncStorage.setItem('pushToken', 'old-token');
+  getExpoPushTokenMock.mockResolvedValue({ data: 'new-token' });
+  requestJsonMock.mockImplementation(async () => ({ data: { success: true }, status: 200, notModified: false }));
+
+  expect(await syncPushToken()).toBe('new-token');
+  await new Promise(resolve => setTimeout(resolve, 0));
+
+  expect(await AsyncStorage.getItem('pushToken')).toBe('new-token');
+  expect(requestedPaths()).toEqual([
+    { path: '/notifications/register', token: 'new-token' },
+    { path: '/notifications/unregister', token: 'old-token' },
+  ]);
+  expect(getPushTokenState()).toMatchObject({ status: 'registered', token: 'new-token' });
+});
+
+it('retries a failed registration with backoff', async () => {
+  jest.useFakeTimers({ now: 0, doNotFake: ['nextTick', 'setImmediate'] });
+  getExpoPushTokenMock.mockResolvedValue({ data: 'token' });
+  requestJsonMock.mockRejectedValue(new Error('Could not reach the server'));
+
+  expect(await syncPushToken()).toBeNull();
+  expect(getPushTokenState()).toMatchObject({ status: 'retrying', nextRetryAt: 30 * 1000 });
+  expect(await AsyncStorage.getItem('pushToken')).toBeNull();
+
+  requestJsonMock.mockImplementation(async () => ({ data: { success: true }, status: 200, notModified: false }));
+  await jest.advanceTimersByTimeAsync(30 * 1000);
+
+  expect(getPushTokenState()).toMatchObject({ status: 'registered', token: 'token', nextRetryAt: null });
+  expect(await AsyncStorage.getItem('pushToken')).toBe('token');
+});
+
+it('waits for a registration in flight before unregistering', async () => {
+  getExpoPushTokenMock.mockResolvedValue({ data: 'token' });
+  let finishRegistration = () => {};
+  requestJsonMock.mockImplementation(async (url: string) => {
+    if (url.endsWith('/register')) {
+      await new Promise<void>(resolve => { finishRegistration = resolve; });
+    }
+    return { data: { success: true }, status: 200, notModified: false };
+  });
+
+  const sync = syncPushToken();
+  await new Promise(resolve => setTimeout(resolve, 0));
+  const unregister = unregisterPushToken();
+  finishRegistration();
+  await Promise.all([sync, unregister]);
+
+  expect(requestedPaths()).toEqual([
+    { path: '/notifications/register', token: 'token' },
+    { path: '/notifications/unregister', token: 'token' },
+  ]);
+  expect(await AsyncStorage.getItem('pushToken')).toBeNull();
+  expect(getPushTokenState()).toMatchObject({ status: 'disabled', token: null });
+});
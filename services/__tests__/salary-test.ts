@@ -0,0 +1,25 @@
+import { getAnnualSalaryRange, parseSalaryText } from '../salary';
+
+it('parses ranges with shared suffixes, codes and periods', () => {
+  expect(parseSalaryText('$50k–70k/yr')).toEqual({ min: 50000, max: 70000, period: 'year', currency: 'USD' });
+  expect(parseSalaryText('50,000-70,000 USD a year')).toEqual({ min: 50000, max: 70000, period: 'year', currency: 'USD' });
+  expect(parseSalaryText('€45.000 to €55.000 per year')).toEqual({ min: 45000, max: 55000, period: 'year', currency: 'EUR' });
+  expect(parseSalaryText('£25/hr')).toEqual({ min: 25, max: 25, period: 'hour', currency: 'GBP' });
+});
+
+it('reads lakh-style grouping and "per annum"', () => {
+  expect(parseSalaryText('₹8,00,000 per annum')).toEqual({ min: 800000, max: 800000, period: 'year', currency: 'INR' });
+  expect(parseSalaryText('₹6,50,000 - ₹12,00,000 p.a.')).toEqual({ min: 650000, max: 1200000, period: 'year', currency: 'INR' });
+  expect(getAnnualSalaryRange('₹8,00,000 per annum')?.min).toBe(9040);
+});
+
+it('ignores numbers that are not next to a currency or part of a range', () => {
+  expect(parseSalaryText('2 years experience, $60k')).toEqual({ min: 60000, max: 60000, period: undefined, currency: 'USD' });
+  expect(parseSalaryText('Competitive, 401k plan')).toBeNull();
+  expect(parseSalaryText('Up to 3 days remote')).toBeNull();
+});
+
+it('still accepts a bare amount with only a period', () => {
+  expect(parseSalaryText('60000 per year')).toEqual({ min: 60000, max: 60000, period: 'year', currency: undefined });
+  expect(parseSalaryText('60000')).toEqual({ min: 60000, max: 60000, period: undefined, currency: undefined });
+});
@@ -0,0 +1,91 @@
+import type { Job } from '../api';
+import { openDatabase, searchJobs } from '../database';
+import { deliverJobNotification } from '../notificationPolicy';
+import { evaluateSavedSearches } from '../savedSearches';
+
+jest.mock('../database', () => ({
+  openDatabase: jest.fn(),
+  searchJobs: jest.fn(),
+}));
+jest.mock('../notificationPolicy', () => ({ deliverJobNotification: jest.fn(async () => 'shown') }));
+
+/**
+ * In-memory stand-in for the two saved search tables
+ */
+const createFakeDatabase = (knownJobIds: string[]) => {
+  const search = {
+    id: 1,
+    name: 'Designers',
+    query: 'designer',
+    filters: '{}',
+    muted: 0,
+    new_match_count: 0,
+    created_at: '2026-01-01T00:00:00.000Z',
+    last_checked_at: null,
+  };
+  const matches = new Set(knownJobIds);
+
+  return {
+    search,
+    matches,
+    getAllAsync: jest.fn(async (sql: string) =>
+      sql.includes('FROM saved_search_matches')
+        ? Array.from(matches, job_id => ({ job_id }))
+        : [search]
+    ),
+    runAsync: jest.fn(async (sql: string, params: unknown[]) => {
+      if (sql.startsWith('INSERT')) matches.add(params[1] as string);
+      if (sql.startsWith('UPDATE')) search.new_match_count += params[0] as number;
+    }),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  };
+};
+
+const createJob = (id: string): Job => ({
+  id,
+  title: `Designer ${id}`,
+  company: 'Acme',
+  companyLogo: null,
+  location: 'Berlin',
+  type: 'Full-time',
+  salary: '',
+  description: '',
+  requirements: [],
+  benefits: [],
+  postedDate: '2026-01-01T00:00:00.000Z',
+  featured: false,
+  category: 'design',
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+it('alerts only about unmatched jobs that the sync brought in', async () => {
+  const db = createFakeDatabase(['known']);
+  (openDatabase as jest.Mock).mockResolvedValue(db);
+  // "older" was cached while paging through the feed, "synced" arrived with the latest sync
+  (searchJobs as jest.Mock).mockResolvedValue([createJob('synced'), createJob('older'), createJob('known')]);
+
+  const newMatches = await evaluateSavedSearches([createJob('synced'), createJob('known')]);
+
+  expect(newMatches).toBe(1);
+  expect(db.search.new_match_count).toBe(1);
+  expect(deliverJobNotification).toHaveBeenCalledTimes(1);
+  expect(deliverJobNotification).toHaveBeenCalledWith(expect.objectContaining({
+    title: 'New matches for Designers',
+    data: { type: 'saved_search', savedSearchId: 1, jobId: 'synced' },
+  }));
+  // The older posting is remembered so it never raises an alert later
+  expect(Array.from(db.matches).sort()).toEqual(['known', 'older', 'synced']);
+});
+
+it('counts matches for muted searches without alerting', async () => {
+  const db = createFakeDatabase([]);
+  db.search.muted = 1;
+  (openDatabase as jest.Mock).mockResolvedValue(db);
+  (searchJobs as jest.Mock).mockResolvedValue([createJob('synced')]);
+
+  expect(await evaluateSavedSearches([createJob('synced')])).toBe(1);
+  expect(deliverJobNotification).not.toHaveBeenCalled();
+});
@@ -0,0 +1,99 @@
+import * as Database from '../database';
+import { syncJobs } from '../sync';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../config', () => ({ getApiUrl: () => 'https://api.test' }));
+jest.mock('../database', () => ({
+  getLastSyncTime: jest.fn(),
+  getJobCount: jest.fn(),
+  startSyncLog: jest.fn(async () => 1),
+  finishSyncLog: jest.fn(async () => {}),
+  applyJobChanges: jest.fn(async () => {}),
+  saveJobs: jest.fn(async () => {}),
+  updateLastSyncTime: jest.fn(async () => {}),
+  getDeltaSyncCursor: jest.fn(),
+  updateDeltaSyncCursor: jest.fn(async () => {}),
+}));
+
+const database = Database as jest.Mocked<typeof Database>;
+const fetchMock = jest.fn();
+
+const createJobPayload = (id: string, changes: Record<string, unknown> = {}) => ({
+  id,
+  title: `Job ${id}`,
+  company: 'Acme',
+  location: 'Berlin',
+  type: 'Full-time',
+  description: 'Build things',
+  postedDate: '2026-01-01T00:00:00.000Z',
+  ...changes,
+});
+
+const changesPage = (jobs: unknown[], deleted: unknown[], nextCursor: string | null) =>
+  new Response(JSON.stringify({ jobs, deleted, nextCursor, serverTime: '2026-02-01T00:00:00.000Z' }), { status: 200 });
+
+const requestedCursors = () => fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get('cursor'));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  fetchMock.mockReset();
+  global.fetch = fetchMock;
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  database.getLastSyncTime.mockResolvedValue(Date.parse('2026-01-15T00:00:00.000Z'));
+  database.getJobCount.mockResolvedValue(5);
+  database.getDeltaSyncCursor.mockResolvedValue(null);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+it('applies changed jobs and turns deletions and closed postings into tombstones', async () => {
+  fetchMock.mockResolvedValueOnce(changesPage(
+    [
+      createJobPayload('1'),
+      createJobPayload('2', { status: 'Filled' }),
+      createJobPayload('3', { deletedAt: '2026-01-20T00:00:00.000Z' }),
+    ],
+    ['4', { _id: '5' }],
+    null
+  ));
+
+  const result = await syncJobs();
+
+  expect(result.mode).toBe('delta');
+  expect(result.upserted.map(job => job.id)).toEqual(['1']);
+  expect(database.applyJobChanges).toHaveBeenCalledWith(result.upserted, [
+    { id: '4', reason: 'deleted' },
+    { id: '5', reason: 'deleted' },
+    { id: '2', reason: 'closed' },
+    { id: '3', reason: 'deleted' },
+  ]);
+  expect(database.updateLastSyncTime).toHaveBeenCalledWith(Date.parse('2026-02-01T00:00:00.000Z'));
+  expect(database.updateDeltaSyncCursor).toHaveBeenCalledWith(null);
+});
+
+it('keeps the sync time and resumes from the cursor when there are more pages than one sync fetches', async () => {
+  fetchMock.mockImplementation(async (url: string) => {
+    const page = Number(new URL(url).searchParams.get('cursor') ?? 0);
+    return changesPage([createJobPayload(`job-${page}`)], [], `${page + 1}`);
+  });
+
+  await syncJobs();
+
+  expect(fetchMock).toHaveBeenCalledTimes(10);
+  expect(database.updateLastSyncTime).not.toHaveBeenCalled();
+  expect(database.updateDeltaSyncCursor).toHaveBeenCalledWith('10');
+
+  fetchMock.mockClear();
+  fetchMock.mockImplementation(async () => changesPage([], ['job-1'], null));
+  database.getDeltaSyncCursor.mockResolvedValue('10');
+
+  await syncJobs();
+
+  expect(requestedCursors()).toEqual(['10']);
+  expect(database.updateLastSyncTime).toHaveBeenCalledTimes(1);
+  expect(database.updateDeltaSyncCursor).toHaveBeenLastCalledWith(null);
+});
@@ -1,8 +1,9 @@
-import { Alert, Platform } from 'react-native';
-
-// Define the base URL for the API
-const API_URL = 'https://jobs-site-mu.vercel.app/api'; // For Android emulator
-// If using iOS simulator, use: const API_URL = 'http://localhost:3000/api';
+import { Alert } from 'react-native';
+import { getApiUrl } from './config';
+import { getPayloadId, JobValidationError, parseJob, parseJobs } from './jobSchema';
+import { InvalidPayloadError } from './errors';
+import { requestJson } from './http';
+import { areJobFixturesEnabled, getFixtureJob } from './jobFixtures';
 
 // Define interfaces for Job data
 export interface Salary {
@@ -12,22 +13,27 @@ export interface Salary {
   period?: string;
 }
 
+// A validated job, as produced by parseJob in jobSchema.ts
 export interface Job {
   id: string;
-  _id?: string;
   title: string;
   company: string;
-  companyLogo?: string | null;
+  companyLogo: string | null;
   location: string;
   type: string;
+  // Structured when the amounts could be read, otherwise the posting's own text ('' when not given)
   salary: Salary | string;
   workplace?: string;
-  description?: string;
-  requirements?: string[] | string;
-  benefits?: string[] | string;
-  postedDate: string | Date;
-  featured?: boolean;
-  category?: string;
+  description: string;
+  requirements: string[];
+  benefits: string[];
+  // ISO 8601 timestamp
+  postedDate: string;
+  featured: boolean;
+  category: string;
+  // Coordinates of the job location, when known
+  latitude?: number | null;
+  longitude?: number | null;
 }
 
 export interface Category {
@@ -46,130 +52,286 @@ export const JOB_TYPES = [
   'internship',
 ];
 
-/**
- * Get the appropriate API URL based on platform
- */
-export const getApiUrl = (): string => {
-  return Platform.OS === 'ios' ? 'http://localhost:3000/api' : 'https://jobs-site-mu.vercel.app/api';
-};
-
 /**
  * Static categories from web admin dashboard
  */
 export const getCategories = (): Category[] => {
   return [
-    { id: '1', name: 'Software Development', slug: 'software-development', count: 42 },
-    { id: '2', name: 'Design', slug: 'design', count: 36 },
-    { id: '3', name: 'Marketing', slug: 'marketing', count: 29 },
-    { id: '4', name: 'Sales', slug: 'sales', count: 25 },
-    { id: '5', name: 'Customer Service', slug: 'customer-service', count: 18 },
-    { id: '6', name: 'Finance', slug: 'finance', count: 15 },
-    { id: '7', name: 'Healthcare', slug: 'healthcare', count: 12 },
-    { id: '8', name: 'Education', slug: 'education', count: 10 },
-    { id: '9', name: 'Engineering', slug: 'engineering', count: 8 }
+    { id: '1', name: 'Software Development', slug: 'software-development' },
+    { id: '2', name: 'Design', slug: 'design' },
+    { id: '3', name: 'Marketing', slug: 'marketing' },
+    { id: '4', name: 'Sales', slug: 'sales' },
+    { id: '5', name: 'Customer Service', slug: 'customer-service' },
+    { id: '6', name: 'Finance', slug: 'finance' },
+    { id: '7', name: 'Healthcare', slug: 'healthcare' },
+    { id: '8', name: 'Education', slug: 'education' },
+    { id: '9', name: 'Engineering', slug: 'engineering' }
   ];
 };
 
+// Raw single-job response; parseJob checks the fields
+type JobResponse = (Record<string, unknown> & { job?: Record<string, unknown> }) | null;
+
 /**
  * Fetch a single job by ID
+ * @param signal - Cancels the request, e.g. when the screen unmounts
+ * @throws NotFoundError, ServerError, NetworkError or InvalidPayloadError
  */
-export const fetchJobById = async (id: string): Promise<Job> => {
+export const fetchJobById = async (id: string, signal?: AbortSignal): Promise<Job> => {
+  if (areJobFixturesEnabled()) {
+    return getFixtureJob(id);
+  }
+  
   try {
     const apiUrl = getApiUrl();
     console.log(`Fetching job with ID: ${id} from ${apiUrl}/jobs/${id}`);
     
-    const response = await fetch(`${apiUrl}/jobs/${id}`);
+    const { data } = await requestJson<JobResponse>(`${apiUrl}/jobs/${id}`, { signal });
     
-    if (!response.ok) {
-      console.warn(`API returned error status: ${response.status}. Using mock data.`);
-      return getMockJobById(id);
+    // The job is either wrapped in { job } or returned as is
+    const jobData = data && data.job ? data.job : data;
+    try {
+      return parseJob(getPayloadId(jobData) ? jobData : { ...jobData, id }, 'response');
+    } catch (error) {
+      if (error instanceof JobValidationError) {
+        throw new InvalidPayloadError(error.message, error.issues);
+      }
+      throw error;
     }
+  } catch (error) {
+    console.error('Error fetching job by ID:', error);
+    throw error;
+  }
+};
+
+export interface FetchJobsParams {
+  page?: number;
+  limit?: number;
+  cursor?: string | null;
+  signal?: AbortSignal;
+}
+
+// Raw page of the feed; the jobs are checked by parseJobs
+interface JobsResponse {
+  jobs?: unknown[];
+  total?: unknown;
+  nextCursor?: string | null;
+  hasMore?: unknown;
+}
+
+export interface JobsPage {
+  jobs: Job[];
+  total: number;
+  page: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+  // True when the server confirmed the page is unchanged since the last fetch
+  notModified: boolean;
+}
+
+// Number of jobs requested per page
+export const JOBS_PAGE_SIZE = 20;
+
+/**
+ * Build a query string from the defined values in params
+ */
+const buildQueryString = (params: Record<string, string | number | null | undefined>): string => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Fetch a page of jobs from the API.
+ * Uses the cursor when the backend provides one, otherwise falls back to page numbers.
+ */
+export const fetchJobs = async ({
+  page = 1,
+  limit = JOBS_PAGE_SIZE,
+  cursor,
+  signal,
+}: FetchJobsParams = {}): Promise<JobsPage> => {
+  try {
+    console.log(`Fetching jobs page ${page} (limit ${limit}) from API...`);
+    const query = buildQueryString({ page: cursor ? undefined : page, limit, cursor });
+    // Conditional requests make refreshing an unchanged feed cheap
+    const { data, notModified } = await requestJson<JobsResponse>(`${getApiUrl()}/jobs${query}`, { signal, useETag: true });
+    const jobs = parseJobs(data.jobs || [], 'response');
+    const total: number = typeof data.total === 'number' ? data.total : jobs.length;
+    const nextCursor: string | null = data.nextCursor || null;
+    
+    // Prefer the server's own flag; otherwise infer from the cursor or the totals
+    const hasMore: boolean = typeof data.hasMore === 'boolean'
+      ? data.hasMore
+      : nextCursor !== null || (jobs.length >= limit && page * limit < total);
+    
+    console.log(notModified ? `Jobs page ${page} unchanged` : `Fetched ${jobs.length} of ${total} jobs from API`);
+    return { jobs, total, page, nextCursor, hasMore, notModified };
+  } catch (error) {
+    console.error('Error fetching jobs:', error);
+    throw error;
+  }
+};
+
+export type TombstoneReason = 'deleted' | 'closed';
+
+export interface JobTombstone {
+  id: string;
+  reason: TombstoneReason;
+}
+
+export interface JobChanges {
+  jobs: Job[];
+  tombstones: JobTombstone[];
+  // Server clock at the time of the response, used as the next `updatedSince`
+  serverTime: number | null;
+  nextCursor: string | null;
+}
+
+interface JobChangesResponse {
+  jobs?: { status?: string; deletedAt?: string | null }[];
+  deleted?: unknown[];
+  deletedIds?: unknown[];
+  serverTime?: string | number | null;
+  nextCursor?: string | null;
+}
+
+// Job statuses that mean the posting should disappear from the feed
+const CLOSED_JOB_STATUSES = ['closed', 'expired', 'filled', 'archived', 'inactive'];
+
+/**
+ * Fetch jobs created, updated, closed or deleted since the given timestamp
+ */
+export const fetchJobChanges = async (
+  updatedSince: number,
+  cursor?: string | null,
+  signal?: AbortSignal
+): Promise<JobChanges> => {
+  try {
+    const since = new Date(updatedSince).toISOString();
+    console.log(`Fetching job changes since ${since}...`);
+    const query = buildQueryString({ updatedSince: since, cursor });
+    const { data } = await requestJson<JobChangesResponse>(`${getApiUrl()}/jobs${query}`, { signal });
+    const jobs: Job[] = [];
+    const tombstones: JobTombstone[] = [];
     
-    const data = await response.json();
-    console.log('Job data received:', JSON.stringify(data));
+    // Deletions may come as a list of IDs or as objects with an id
+    const deleted: unknown[] = data.deleted || data.deletedIds || [];
+    deleted.forEach(entry => {
+      const id = typeof entry === 'string' ? entry : getPayloadId(entry);
+      if (id) {
+        tombstones.push({ id, reason: 'deleted' });
+      }
+    });
     
-    // Handle different API response formats
-    const jobData = data.job || data;
+    (data.jobs || []).forEach(job => {
+      const id = getPayloadId(job);
+      
+      if (id && job.deletedAt) {
+        tombstones.push({ id, reason: 'deleted' });
+      } else if (id && job.status && CLOSED_JOB_STATUSES.includes(job.status.toLowerCase())) {
+        tombstones.push({ id, reason: 'closed' });
+      } else {
+        jobs.push(...parseJobs([job], 'change'));
+      }
+    });
     
-    // If received data seems incomplete, use mock data
-    if (!jobData || !jobData.title || !jobData.company) {
-      console.warn('API returned incomplete job data. Using mock data.');
-      return getMockJobById(id);
-    }
+    const serverTime = data.serverTime ? new Date(data.serverTime).getTime() : NaN;
     
-    // Ensure job has an id property
+    console.log(`Received ${jobs.length} changed and ${tombstones.length} removed jobs`);
     return {
-      ...jobData,
-      id: jobData._id || jobData.id || id,
+      jobs,
+      tombstones,
+      serverTime: isNaN(serverTime) ? null : serverTime,
+      nextCursor: data.nextCursor || null,
     };
   } catch (error) {
-    console.error('Error fetching job by ID:', error);
-    console.log('Falling back to mock data...');
-    return getMockJobById(id);
+    console.error('Error fetching job changes:', error);
+    throw error;
   }
 };
 
+export interface ResumeFile {
+  uri: string;
+  name: string;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+export interface ApplicationPayload {
+  jobId: string;
+  email: string;
+  phone: string;
+  resume: ResumeFile;
+  // Sent with every attempt so the server stores the application only once, even when a response is lost
+  idempotencyKey: string;
+}
+
+interface ApplicationResponse {
+  success?: boolean;
+  message?: string;
+  id?: string;
+  applicationId?: string;
+  application?: { _id?: string; id?: string };
+  createdAt?: string;
+}
+
+export interface ApplicationReceipt {
+  applicationId: string | null;
+  submittedAt: string;
+}
+
 /**
- * Get mock job data by ID for development/fallback
+ * Create a key that identifies one application across every attempt to send it
  */
-const getMockJobById = (id: string): Job => {
-  console.log(`Generating mock data for job ID: ${id}`);
-  
-  return {
-    id: id,
-    title: 'Senior React Native Developer',
-    company: 'Tech Innovations Inc',
-    companyLogo: 'https://placehold.co/200x200/4F46E5/FFFFFF?text=TI',
-    location: 'San Francisco, CA',
-    type: 'Full-time',
-    salary: {
-      min: 120000,
-      max: 150000,
-      currency: '$',
-      period: 'year'
-    },
-    workplace: 'Remote',
-    description: 'We are seeking an experienced React Native developer to join our mobile development team. The ideal candidate will have a strong background in building cross-platform mobile applications with React Native, a solid understanding of native mobile platforms, and experience with state management solutions.\n\nYou will work closely with designers, product managers, and other engineers to develop new features, improve performance, and ensure the quality of our mobile applications.',
-    requirements: [
-      'At least 4 years of experience with React Native development',
-      'Strong understanding of JavaScript, TypeScript, and React Native best practices',
-      'Experience with state management solutions (Redux, Context API, MobX)',
-      'Familiarity with native build tools (Xcode, Android Studio)',
-      'Knowledge of RESTful APIs and GraphQL',
-      'Bachelor\'s degree in Computer Science or related field (or equivalent experience)'
-    ],
-    benefits: [
-      'Competitive salary and equity package',
-      'Health, dental, and vision insurance',
-      'Flexible work schedule and remote work options',
-      'Generous PTO policy',
-      '401(k) matching',
-      'Professional development budget',
-      'Wellness program'
-    ],
-    postedDate: new Date(Date.now() - 5 * 86400000), // 5 days ago
-    featured: true,
-    category: 'software-development'
-  };
-};
+export const createIdempotencyKey = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
 
 /**
- * Fetch all jobs from the API
+ * Submit a job application with the resume as a multipart upload.
+ * Resolves only when the backend confirms the application was stored.
  */
-export const fetchJobs = async (): Promise<{ jobs: Job[]; total: number }> => {
+export const submitApplication = async (payload: ApplicationPayload): Promise<ApplicationReceipt> => {
+  const formData = new FormData();
+  formData.append('jobId', payload.jobId);
+  formData.append('email', payload.email);
+  formData.append('phone', payload.phone);
+  // React Native's FormData uploads a file from this { uri, name, type } shape
+  formData.append('resume', {
+    uri: payload.resume.uri,
+    name: payload.resume.name,
+    type: payload.resume.mimeType || 'application/octet-stream',
+  } as unknown as Blob);
+  
   try {
-    console.log('Fetching all jobs from API...');
-    const response = await fetch(`${API_URL}/jobs`);
+    console.log(`Submitting application for job ${payload.jobId}...`);
+    // Resume uploads can be slow; failed sends are retried by the outbox rather than here
+    const { data } = await requestJson<ApplicationResponse | null>(`${getApiUrl()}/applications`, {
+      method: 'POST',
+      headers: {
+        'Idempotency-Key': payload.idempotencyKey,
+      },
+      body: formData,
+      timeoutMs: 60000,
+    });
     
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+    const applicationId = data?.applicationId || data?.application?._id || data?.application?.id || data?.id || null;
+    
+    // Only treat the application as sent when the server says so
+    if (!data || (data.success !== true && !applicationId)) {
+      throw new Error(data?.message || 'The server did not confirm your application.');
     }
     
-    const data = await response.json();
-    console.log(`Fetched ${data.jobs.length} jobs from API`);
-    return data;
+    console.log('Application submitted:', applicationId);
+    return {
+      applicationId,
+      submittedAt: data.createdAt || new Date().toISOString(),
+    };
   } catch (error) {
-    console.error('Error fetching jobs:', error);
+    console.error('Error submitting application:', error);
     throw error;
   }
 };
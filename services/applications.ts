@@ -0,0 +1,177 @@
+import { openDatabase } from './database';
+
+export type ApplicationStatus = 'applied' | 'viewed' | 'interviewing' | 'offer' | 'rejected' | 'withdrawn';
+
+// Pipeline order used for the status picker
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'applied',
+  'viewed',
+  'interviewing',
+  'offer',
+  'rejected',
+  'withdrawn',
+];
+
+export interface TrackedApplication {
+  id: number;
+  jobId: string;
+  // Id assigned by the backend, if it returned one
+  remoteId: string | null;
+  jobTitle: string | null;
+  company: string | null;
+  status: ApplicationStatus;
+  notes: string;
+  appliedAt: string;
+  statusUpdatedAt: string;
+}
+
+interface ApplicationRow {
+  id: number;
+  job_id: string;
+  remote_id: string | null;
+  job_title: string | null;
+  company: string | null;
+  status: ApplicationStatus;
+  notes: string;
+  applied_at: string;
+  status_updated_at: string;
+}
+
+type ApplicationsListener = () => void;
+
+const listeners = new Set<ApplicationsListener>();
+
+const mapApplicationRow = (row: ApplicationRow): TrackedApplication => ({
+  id: row.id,
+  jobId: row.job_id,
+  remoteId: row.remote_id,
+  jobTitle: row.job_title,
+  company: row.company,
+  status: row.status,
+  notes: row.notes,
+  appliedAt: row.applied_at,
+  statusUpdatedAt: row.status_updated_at,
+});
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribe to changes in tracked applications
+ * @returns Function that removes the listener
+ */
+export const subscribeToApplications = (listener: ApplicationsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Start tracking an application the backend has accepted
+ */
+export const recordApplication = async (application: {
+  jobId: string;
+  remoteId?: string | null;
+  jobTitle?: string | null;
+  company?: string | null;
+  appliedAt?: string;
+}): Promise<void> => {
+  try {
+    const appliedAt = application.appliedAt || new Date().toISOString();
+    const db = await openDatabase();
+    await db.runAsync(
+      `INSERT INTO applications (job_id, remote_id, job_title, company, status, notes, applied_at, status_updated_at)
+       VALUES (?, ?, ?, ?, 'applied', '', ?, ?)`,
+      [
+        application.jobId,
+        application.remoteId || null,
+        application.jobTitle || null,
+        application.company || null,
+        appliedAt,
+        appliedAt
+      ]
+    );
+    notifyListeners();
+  } catch (error) {
+    console.error('Error recording application:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all tracked applications, most recent first
+ */
+export const getApplications = async (): Promise<TrackedApplication[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<ApplicationRow>('SELECT * FROM applications ORDER BY applied_at DESC');
+    return rows.map(mapApplicationRow);
+  } catch (error) {
+    console.error('Error getting applications:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the latest application for a job, if the user has applied
+ */
+export const getApplicationForJob = async (jobId: string): Promise<TrackedApplication | null> => {
+  try {
+    const db = await openDatabase();
+    const row = await db.getFirstAsync<ApplicationRow>(
+      'SELECT * FROM applications WHERE job_id = ? ORDER BY applied_at DESC LIMIT 1',
+      [jobId]
+    );
+    return row ? mapApplicationRow(row) : null;
+  } catch (error) {
+    console.error('Error getting application for job:', error);
+    throw error;
+  }
+};
+
+/**
+ * Move an application to a new stage of the pipeline
+ */
+export const updateApplicationStatus = async (id: number, status: ApplicationStatus): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync(
+      'UPDATE applications SET status = ?, status_updated_at = ? WHERE id = ?',
+      [status, new Date().toISOString(), id]
+    );
+    notifyListeners();
+  } catch (error) {
+    console.error('Error updating application status:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save the user's notes for an application
+ */
+export const updateApplicationNotes = async (id: number, notes: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('UPDATE applications SET notes = ? WHERE id = ?', [notes, id]);
+    notifyListeners();
+  } catch (error) {
+    console.error('Error updating application notes:', error);
+    throw error;
+  }
+};
+
+/**
+ * Stop tracking an application
+ */
+export const deleteApplication = async (id: number): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('DELETE FROM applications WHERE id = ?', [id]);
+    notifyListeners();
+  } catch (error) {
+    console.error('Error deleting application:', error);
+    throw error;
+  }
+};
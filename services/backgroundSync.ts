@@ -0,0 +1,162 @@
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import * as Battery from 'expo-battery';
+import NetInfo, { NetInfoStateType } from '@react-native-community/netinfo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadEnvironmentOverride } from './config';
+import { syncJobs } from './sync';
+import { evaluateSavedSearches } from './savedSearches';
+
+// Constants
+export const BACKGROUND_SYNC_TASK = 'background-job-sync';
+const BACKGROUND_SYNC_SETTINGS_KEY = 'background_sync_settings';
+
+// Below this charge, background syncs are skipped unless the device is charging
+const LOW_BATTERY_LEVEL = 0.2;
+
+export interface BackgroundSyncSettings {
+  enabled: boolean;
+  // How often jobs should be refreshed; the OS treats this as a minimum and may run less often
+  intervalMinutes: number;
+  wifiOnly: boolean;
+  skipOnLowBattery: boolean;
+}
+
+export const DEFAULT_BACKGROUND_SYNC_SETTINGS: BackgroundSyncSettings = {
+  enabled: true,
+  intervalMinutes: 60,
+  wifiOnly: false,
+  skipOnLowBattery: true,
+};
+
+export const SYNC_INTERVAL_OPTIONS: { value: number; label: string }[] = [
+  { value: 15, label: '15 min' },
+  { value: 30, label: '30 min' },
+  { value: 60, label: '1 hour' },
+  { value: 180, label: '3 hours' },
+  { value: 360, label: '6 hours' },
+  { value: 720, label: '12 hours' },
+];
+
+export type BackgroundSyncSkipReason = 'disabled' | 'offline' | 'not_wifi' | 'low_battery';
+
+/**
+ * Load the background sync settings
+ */
+export const getBackgroundSyncSettings = async (): Promise<BackgroundSyncSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(BACKGROUND_SYNC_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_BACKGROUND_SYNC_SETTINGS, ...JSON.parse(stored) } : DEFAULT_BACKGROUND_SYNC_SETTINGS;
+  } catch (error) {
+    console.error('Error loading background sync settings:', error);
+    return DEFAULT_BACKGROUND_SYNC_SETTINGS;
+  }
+};
+
+/**
+ * Save background sync settings and reschedule the task to match
+ */
+export const updateBackgroundSyncSettings = async (
+  changes: Partial<BackgroundSyncSettings>
+): Promise<BackgroundSyncSettings> => {
+  try {
+    const settings = { ...(await getBackgroundSyncSettings()), ...changes };
+    await AsyncStorage.setItem(BACKGROUND_SYNC_SETTINGS_KEY, JSON.stringify(settings));
+    await registerBackgroundSync(settings);
+    return settings;
+  } catch (error) {
+    console.error('Error saving background sync settings:', error);
+    throw error;
+  }
+};
+
+/**
+ * Check whether the device conditions allow a sync right now
+ * @returns Why the sync should be skipped, or null to go ahead
+ */
+const getSkipReason = async (settings: BackgroundSyncSettings): Promise<BackgroundSyncSkipReason | null> => {
+  if (!settings.enabled) return 'disabled';
+
+  const network = await NetInfo.fetch();
+  if (!network.isConnected) return 'offline';
+  if (settings.wifiOnly && network.type !== NetInfoStateType.wifi) return 'not_wifi';
+
+  if (settings.skipOnLowBattery) {
+    const [isLowPowerMode, level, state] = await Promise.all([
+      Battery.isLowPowerModeEnabledAsync(),
+      Battery.getBatteryLevelAsync(),
+      Battery.getBatteryStateAsync(),
+    ]);
+    const isCharging = state === Battery.BatteryState.CHARGING || state === Battery.BatteryState.FULL;
+    // A level of -1 means the platform can't report it
+    if (isLowPowerMode || (!isCharging && level >= 0 && level < LOW_BATTERY_LEVEL)) return 'low_battery';
+  }
+
+  return null;
+};
+
+/**
+ * Sync jobs and check saved searches, if the user's settings and the device allow it
+ */
+export const runBackgroundSync = async (): Promise<BackgroundFetch.BackgroundFetchResult> => {
+  try {
+    const settings = await getBackgroundSyncSettings();
+    const skipReason = await getSkipReason(settings);
+    if (skipReason) {
+      console.log(`Skipping background sync: ${skipReason}`);
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+
+    // The app may have been launched just for this task, so restore the QA environment choice first
+    await loadEnvironmentOverride();
+    const result = await syncJobs();
+    await evaluateSavedSearches(result.upserted);
+
+    const hasChanges = result.upserted.length > 0 || result.removedIds.length > 0;
+    return hasChanges ? BackgroundFetch.BackgroundFetchResult.NewData : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('Error during background sync:', error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+};
+
+// Tasks must be defined when the JS bundle loads, outside of any component, so the OS can run them headless
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, () => runBackgroundSync());
+
+/**
+ * Register or unregister the background task to match the settings
+ */
+export const registerBackgroundSync = async (settings?: BackgroundSyncSettings): Promise<void> => {
+  try {
+    const { enabled, intervalMinutes } = settings ?? (await getBackgroundSyncSettings());
+    const status = await BackgroundFetch.getStatusAsync();
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK);
+
+    if (!enabled || status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      if (isRegistered) {
+        await BackgroundFetch.unregisterTaskAsync(BACKGROUND_SYNC_TASK);
+      }
+      return;
+    }
+
+    // Registering again replaces the previous interval
+    await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+      minimumInterval: intervalMinutes * 60,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+  } catch (error) {
+    console.error('Error registering background sync:', error);
+  }
+};
+
+/**
+ * Whether the OS lets this app run background fetches at all
+ */
+export const isBackgroundSyncAvailable = async (): Promise<boolean> => {
+  try {
+    return (await BackgroundFetch.getStatusAsync()) === BackgroundFetch.BackgroundFetchStatus.Available;
+  } catch {
+    return false;
+  }
+};
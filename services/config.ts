@@ -0,0 +1,179 @@
+import Constants from 'expo-constants';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Storage key for the runtime environment override (debug builds / QA only)
+const ENV_OVERRIDE_KEY = 'api_environment_override';
+
+export type EnvironmentName = 'development' | 'staging' | 'production' | 'mock';
+
+export interface EnvironmentConfig {
+  name: EnvironmentName;
+  label: string;
+  // Base URL of the REST API, e.g. https://example.com/api
+  apiUrl: string;
+  // Public website used for share links and universal links
+  siteUrl: string;
+}
+
+type EnvironmentMap = Partial<Record<EnvironmentName, Omit<EnvironmentConfig, 'name'>>>;
+
+const ENVIRONMENT_NAMES: EnvironmentName[] = ['development', 'staging', 'production', 'mock'];
+
+// Built-in fallbacks used when app.json does not define an environment
+const DEFAULT_ENVIRONMENTS: EnvironmentMap = {
+  production: {
+    label: 'Production',
+    apiUrl: 'https://jobs-site-mu.vercel.app/api',
+    siteUrl: 'https://jobs-site-delta.vercel.app',
+  },
+};
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+/**
+ * Build the list of environments from app.json `extra.environments`,
+ * with EXPO_PUBLIC_* env vars taking precedence for the API URLs.
+ * Environments left without an API URL (e.g. staging when EXPO_PUBLIC_STAGING_API_URL isn't set) are dropped.
+ */
+const loadEnvironments = (): EnvironmentMap => {
+  const environments: EnvironmentMap = {
+    ...DEFAULT_ENVIRONMENTS,
+    ...(extra.environments as EnvironmentMap | undefined),
+  };
+
+  // EXPO_PUBLIC_* variables are inlined at build time, so each one must be referenced directly
+  const envUrls: Partial<Record<EnvironmentName, string | undefined>> = {
+    development: process.env.EXPO_PUBLIC_DEV_API_URL,
+    staging: process.env.EXPO_PUBLIC_STAGING_API_URL,
+    production: process.env.EXPO_PUBLIC_PROD_API_URL,
+    mock: process.env.EXPO_PUBLIC_MOCK_API_URL,
+  };
+
+  ENVIRONMENT_NAMES.forEach(name => {
+    const apiUrl = envUrls[name];
+    if (!apiUrl) return;
+
+    const existing = environments[name];
+    environments[name] = {
+      label: existing?.label || name,
+      siteUrl: existing?.siteUrl || DEFAULT_ENVIRONMENTS.production!.siteUrl,
+      apiUrl,
+    };
+  });
+
+  ENVIRONMENT_NAMES.forEach(name => {
+    if (!environments[name]?.apiUrl) delete environments[name];
+  });
+
+  return environments;
+};
+
+const environments = loadEnvironments();
+
+/**
+ * Resolve the environment the build was configured for
+ */
+const getDefaultEnvironmentName = (): EnvironmentName => {
+  const configured = (process.env.EXPO_PUBLIC_API_ENV || extra.environment) as EnvironmentName | undefined;
+
+  if (configured && environments[configured]) {
+    return configured;
+  }
+
+  return 'production';
+};
+
+const defaultEnvironmentName = getDefaultEnvironmentName();
+
+// Active environment; only differs from the default when an override is set
+let activeEnvironmentName: EnvironmentName = defaultEnvironmentName;
+
+/**
+ * Whether the environment can be switched at runtime.
+ * Always allowed in development; release builds opt in via `extra.allowEnvironmentSwitch`
+ * or EXPO_PUBLIC_ALLOW_ENV_SWITCH=true (used for QA builds).
+ */
+export const canSwitchEnvironment = (): boolean => {
+  return __DEV__
+    || extra.allowEnvironmentSwitch === true
+    || process.env.EXPO_PUBLIC_ALLOW_ENV_SWITCH === 'true';
+};
+
+/**
+ * Get all configured environments
+ */
+export const getEnvironments = (): EnvironmentConfig[] => {
+  return ENVIRONMENT_NAMES
+    .filter(name => environments[name])
+    .map(name => ({ name, ...environments[name]! }));
+};
+
+/**
+ * Get the currently active environment
+ */
+export const getEnvironment = (): EnvironmentConfig => {
+  return { name: activeEnvironmentName, ...environments[activeEnvironmentName]! };
+};
+
+/**
+ * Get the base URL of the API for the active environment
+ */
+export const getApiUrl = (): string => {
+  return getEnvironment().apiUrl;
+};
+
+/**
+ * Get the public website URL for the active environment
+ */
+export const getSiteUrl = (): string => {
+  return getEnvironment().siteUrl;
+};
+
+/**
+ * Restore a previously selected environment override.
+ * Should be called once at startup before any API requests are made.
+ */
+export const loadEnvironmentOverride = async (): Promise<void> => {
+  if (!canSwitchEnvironment()) return;
+
+  try {
+    const stored = await AsyncStorage.getItem(ENV_OVERRIDE_KEY) as EnvironmentName | null;
+    if (stored && environments[stored]) {
+      activeEnvironmentName = stored;
+      console.log(`Using overridden API environment: ${stored} (${getApiUrl()})`);
+    }
+  } catch (error) {
+    console.error('Error loading environment override:', error);
+  }
+};
+
+/**
+ * Switch the active environment at runtime (debug only)
+ */
+export const setEnvironment = async (name: EnvironmentName): Promise<void> => {
+  if (!canSwitchEnvironment()) {
+    throw new Error('Switching environments is not allowed in this build');
+  }
+
+  if (!environments[name]) {
+    throw new Error(`Unknown environment: ${name}`);
+  }
+
+  activeEnvironmentName = name;
+
+  if (name === defaultEnvironmentName) {
+    await AsyncStorage.removeItem(ENV_OVERRIDE_KEY);
+  } else {
+    await AsyncStorage.setItem(ENV_OVERRIDE_KEY, name);
+  }
+
+  console.log(`Switched API environment to ${name} (${getApiUrl()})`);
+};
+
+/**
+ * Clear any runtime override and go back to the build's environment
+ */
+export const resetEnvironment = async (): Promise<void> => {
+  activeEnvironmentName = defaultEnvironmentName;
+  await AsyncStorage.removeItem(ENV_OVERRIDE_KEY);
+};
@@ -1,14 +1,20 @@
 import * as SQLite from 'expo-sqlite';
-import { Job } from './api';
+import { Job, JobTombstone } from './api';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { runMigrations } from './migrations';
+import { parseJob, parseJobs } from './jobSchema';
+import { FacetCounts, JobFilters, buildFilterClause, getFilterColumns } from './jobFilters';
+import { Coordinates, DEFAULT_JOB_SORT, JobSort, buildOrderClause } from './jobSort';
 
-// Database version key - increment when schema changes
-const DB_VERSION_KEY = 'jobs_db_version';
-const CURRENT_DB_VERSION = '1';
+// Legacy AsyncStorage key that held the schema version before PRAGMA user_version was used
+const LEGACY_DB_VERSION_KEY = 'jobs_db_version';
 
 // Last sync timestamp key
 const LAST_SYNC_KEY = 'jobs_last_sync';
 
+// Cursor to resume a delta sync that stopped before the last page
+const DELTA_SYNC_CURSOR_KEY = 'jobs_delta_sync_cursor';
+
 // Time window before considering data stale (in milliseconds)
 // Default: 1 hour
 const STALE_DATA_THRESHOLD = 60 * 60 * 1000;
@@ -17,73 +23,148 @@ const STALE_DATA_THRESHOLD = 60 * 60 * 1000;
 const DB_NAME = 'jobfinder.db';
 
 // Open the database with WAL mode for better performance
-const openDatabase = async () => {
+export const openDatabase = async () => {
   const db = await SQLite.openDatabaseAsync(DB_NAME);
   await db.execAsync('PRAGMA journal_mode = WAL;');
   return db;
 };
 
 /**
- * Initialize the database
+ * Initialize the database and bring its schema up to date
  */
 export const initDatabase = async (): Promise<void> => {
   try {
     const db = await openDatabase();
+    await runMigrations(db);
     
-    // Create jobs table
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS jobs (
-        id TEXT PRIMARY KEY,
-        title TEXT NOT NULL,
-        company TEXT NOT NULL,
-        location TEXT NOT NULL,
-        type TEXT NOT NULL,
-        category TEXT NOT NULL,
-        description TEXT NOT NULL,
-        requirements TEXT NOT NULL,
-        salary TEXT,
-        posted_date TEXT,
-        featured INTEGER DEFAULT 0,
-        created_at TEXT,
-        updated_at TEXT
-      )
-    `);
-    
-    console.log('Jobs table created or already exists');
-    await checkDatabaseVersion();
+    // The schema version now lives in the database itself
+    await AsyncStorage.removeItem(LEGACY_DB_VERSION_KEY);
   } catch (error) {
     console.error('Error initializing database:', error);
     throw error;
   }
 };
 
+interface JobRow {
+  id: string;
+  title: string;
+  company: string;
+  company_logo: string | null;
+  location: string;
+  type: string;
+  category: string;
+  description: string;
+  requirements: string;
+  benefits: string;
+  salary: string;
+  workplace: string | null;
+  posted_date: string;
+  featured: number;
+  latitude: number | null;
+  longitude: number | null;
+}
+
 /**
- * Check if the database needs to be updated
+ * Turn a row from the jobs table back into the shape the API sends
  */
-const checkDatabaseVersion = async (): Promise<void> => {
-  try {
-    const storedVersion = await AsyncStorage.getItem(DB_VERSION_KEY);
-    
-    if (storedVersion !== CURRENT_DB_VERSION) {
-      console.log(`Database version mismatch: ${storedVersion} vs ${CURRENT_DB_VERSION}. Updating database...`);
-      await updateDatabaseSchema(storedVersion, CURRENT_DB_VERSION);
-      await AsyncStorage.setItem(DB_VERSION_KEY, CURRENT_DB_VERSION);
-    } else {
-      console.log(`Database version ${CURRENT_DB_VERSION} is current.`);
-    }
-  } catch (error) {
-    console.error('Error checking database version:', error);
-    throw error;
-  }
+const toJobPayload = (row: JobRow) => ({
+  id: row.id,
+  title: row.title,
+  company: row.company,
+  companyLogo: row.company_logo,
+  location: row.location,
+  type: row.type,
+  category: row.category,
+  description: row.description,
+  requirements: tryParseJSON(row.requirements) || [],
+  benefits: tryParseJSON(row.benefits) || [],
+  salary: tryParseJSON(row.salary) || row.salary,
+  workplace: row.workplace,
+  postedDate: row.posted_date,
+  featured: row.featured === 1,
+  latitude: row.latitude,
+  longitude: row.longitude,
+});
+
+/**
+ * Map a row from the jobs table to a Job, validating it like an API payload
+ */
+const mapJobRow = (row: JobRow): Job => parseJob(toJobPayload(row), 'row');
+
+/**
+ * Map rows from the jobs table to Jobs, leaving out (and reporting) any that fail validation
+ */
+const mapJobRows = (rows: JobRow[]): Job[] => parseJobs(rows.map(toJobPayload), 'row');
+
+/**
+ * Remove a job from the search index (must run before the jobs row changes)
+ */
+const removeFromSearchIndex = async (db: SQLite.SQLiteDatabase, id: string): Promise<void> => {
+  await db.runAsync('DELETE FROM jobs_fts WHERE rowid = (SELECT rowid FROM jobs WHERE id = ?)', [id]);
 };
 
 /**
- * Update the database schema
+ * Insert or replace a single job row, keep the search index in sync and clear any tombstone for it
  */
-const updateDatabaseSchema = async (oldVersion: string | null, newVersion: string): Promise<void> => {
-  if (!oldVersion) {
-    console.log('Initializing new database with version', newVersion);
-  }
+const upsertJob = async (db: SQLite.SQLiteDatabase, job: Job): Promise<void> => {
+  const filterColumns = getFilterColumns(job);
+  
+  // REPLACE gives the row a new rowid, so drop the old index entry first
+  await removeFromSearchIndex(db, job.id);
+  
+  const result = await db.runAsync(
+    `INSERT OR REPLACE INTO jobs 
+      (id, title, company, company_logo, location, type, category, description, requirements, benefits, salary, workplace, posted_date, featured, salary_min_annual, salary_max_annual, workplace_type, latitude, longitude, created_at, updated_at) 
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+       COALESCE(?, (SELECT latitude FROM geocode_cache WHERE location = ?)),
+       COALESCE(?, (SELECT longitude FROM geocode_cache WHERE location = ?)),
+       ?, ?)`,
+    [
+      job.id,
+      job.title,
+      job.company,
+      job.companyLogo,
+      job.location,
+      job.type,
+      job.category,
+      job.description,
+      JSON.stringify(job.requirements),
+      JSON.stringify(job.benefits),
+      typeof job.salary === 'string' ? job.salary : JSON.stringify(job.salary),
+      job.workplace || null,
+      job.postedDate,
+      job.featured ? 1 : 0,
+      filterColumns.salaryMinAnnual,
+      filterColumns.salaryMaxAnnual,
+      filterColumns.workplaceType,
+      job.latitude ?? null,
+      job.location,
+      job.longitude ?? null,
+      job.location,
+      new Date().toISOString(),
+      new Date().toISOString()
+    ]
+  );
+  
+  await db.runAsync(
+    `INSERT INTO jobs_fts (rowid, title, company, location, description, requirements, category)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      result.lastInsertRowId,
+      job.title,
+      job.company,
+      job.location,
+      job.description || '',
+      job.requirements.join(' '),
+      job.category || ''
+    ]
+  );
+  
+  // A job that is live again on the server is no longer removed
+  await db.runAsync('DELETE FROM job_tombstones WHERE id = ?', [job.id]);
+  
+  // Keep the snapshot of a bookmarked job up to date
+  await db.runAsync('UPDATE saved_jobs SET job_data = ? WHERE job_id = ?', [JSON.stringify(job), job.id]);
 };
 
 /**
@@ -100,26 +181,7 @@ export const saveJobs = async (jobs: Job[]): Promise<void> => {
     
     try {
       for (const job of jobs) {
-        await db.runAsync(
-          `INSERT OR REPLACE INTO jobs 
-            (id, title, company, location, type, category, description, requirements, salary, posted_date, featured, created_at, updated_at) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-          [
-            job.id,
-            job.title,
-            job.company,
-            job.location,
-            job.type,
-            job.category,
-            job.description || '',
-            job.requirements || '',
-            typeof job.salary === 'string' ? job.salary : JSON.stringify(job.salary),
-            job.postedDate,
-            job.featured ? 1 : 0,
-            new Date().toISOString(),
-            new Date().toISOString()
-          ]
-        );
+        await upsertJob(db, job);
       }
       
       await db.execAsync('COMMIT;');
@@ -135,41 +197,152 @@ export const saveJobs = async (jobs: Job[]): Promise<void> => {
 };
 
 /**
- * Get all jobs from the database
+ * Apply a delta from the server: upsert changed jobs and remove tombstoned ones
  */
-export const getJobs = async (): Promise<Job[]> => {
+export const applyJobChanges = async (jobs: Job[], tombstones: JobTombstone[]): Promise<void> => {
+  if (jobs.length === 0 && tombstones.length === 0) return;
+
   try {
     const db = await openDatabase();
     
-    const result = await db.getAllAsync<{
-      id: string;
-      title: string;
-      company: string;
-      location: string;
-      type: string;
-      category: string;
-      description: string;
-      requirements: string;
-      salary: string;
-      posted_date: string;
-      featured: number;
-    }>(
-      'SELECT * FROM jobs ORDER BY featured DESC, posted_date DESC'
+    await db.execAsync('BEGIN TRANSACTION;');
+    
+    try {
+      for (const job of jobs) {
+        await upsertJob(db, job);
+      }
+      
+      const removedAt = new Date().toISOString();
+      for (const tombstone of tombstones) {
+        await removeFromSearchIndex(db, tombstone.id);
+        await db.runAsync('DELETE FROM jobs WHERE id = ?', [tombstone.id]);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO job_tombstones (id, reason, removed_at) VALUES (?, ?, ?)',
+          [tombstone.id, tombstone.reason, removedAt]
+        );
+      }
+      
+      await db.execAsync('COMMIT;');
+      console.log(`Applied ${jobs.length} job updates and ${tombstones.length} removals`);
+    } catch (error) {
+      await db.execAsync('ROLLBACK;');
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error applying job changes:', error);
+    throw error;
+  }
+};
+
+/**
+ * Count the jobs stored in the database
+ */
+export const getJobCount = async (): Promise<number> => {
+  try {
+    const db = await openDatabase();
+    const result = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM jobs');
+    return result?.count ?? 0;
+  } catch (error) {
+    console.error('Error counting jobs:', error);
+    throw error;
+  }
+};
+
+export interface LocationCount {
+  location: string;
+  count: number;
+}
+
+/**
+ * Get the distinct locations of cached jobs, most common first
+ */
+export const getLocations = async (): Promise<LocationCount[]> => {
+  try {
+    const db = await openDatabase();
+    return await db.getAllAsync<LocationCount>(
+      `SELECT location, COUNT(*) AS count FROM jobs
+       WHERE trim(location) != ''
+       GROUP BY location
+       ORDER BY count DESC, location ASC`
+    );
+  } catch (error) {
+    console.error('Error getting locations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get locations of cached jobs that have no coordinates and were never geocoded
+ */
+export const getLocationsToGeocode = async (limit: number): Promise<string[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<{ location: string }>(
+      `SELECT DISTINCT location FROM jobs
+       WHERE latitude IS NULL
+         AND trim(location) != ''
+         AND location NOT IN (SELECT location FROM geocode_cache)
+       LIMIT ?`,
+      [limit]
+    );
+    return rows.map(row => row.location);
+  } catch (error) {
+    console.error('Error getting locations to geocode:', error);
+    throw error;
+  }
+};
+
+/**
+ * Store the geocoding result for a location and apply it to matching jobs.
+ * A null result is cached too so places that can't be found are not looked up again.
+ */
+export const saveGeocode = async (location: string, coordinates: Coordinates | null): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync(
+        'INSERT OR REPLACE INTO geocode_cache (location, latitude, longitude, geocoded_at) VALUES (?, ?, ?, ?)',
+        [location, coordinates?.latitude ?? null, coordinates?.longitude ?? null, new Date().toISOString()]
+      );
+      
+      if (coordinates) {
+        await db.runAsync(
+          'UPDATE jobs SET latitude = ?, longitude = ? WHERE location = ? AND latitude IS NULL',
+          [coordinates.latitude, coordinates.longitude, location]
+        );
+      }
+    });
+  } catch (error) {
+    console.error('Error saving geocode:', error);
+    throw error;
+  }
+};
+
+export interface GetJobsOptions {
+  limit?: number;
+  offset?: number;
+  sort?: JobSort;
+  // User position, used by the distance sort
+  origin?: Coordinates | null;
+}
+
+/**
+ * Get jobs from the database, optionally one page at a time
+ */
+export const getJobs = async ({ limit, offset = 0, sort = DEFAULT_JOB_SORT, origin }: GetJobsOptions = {}): Promise<Job[]> => {
+  const order = buildOrderClause(sort, { origin });
+  
+  try {
+    const db = await openDatabase();
+    
+    const result = await db.getAllAsync<JobRow>(
+      limit !== undefined
+        ? `SELECT * FROM jobs ORDER BY ${order.orderBy} LIMIT ? OFFSET ?`
+        : `SELECT * FROM jobs ORDER BY ${order.orderBy}`,
+      limit !== undefined ? [...order.params, limit, offset] : order.params
     );
     
-    const jobs: Job[] = result.map(row => ({
-      id: row.id,
-      title: row.title,
-      company: row.company,
-      location: row.location,
-      type: row.type,
-      category: row.category,
-      description: row.description,
-      requirements: row.requirements,
-      salary: tryParseJSON(row.salary) || row.salary,
-      postedDate: row.posted_date,
-      featured: row.featured === 1,
-    }));
+    const jobs: Job[] = mapJobRows(result);
     
     console.log(`Retrieved ${jobs.length} jobs from local database`);
     return jobs;
@@ -186,44 +359,209 @@ export const getJobById = async (id: string): Promise<Job | null> => {
   try {
     const db = await openDatabase();
     
-    const result = await db.getFirstAsync<{
-      id: string;
-      title: string;
-      company: string;
-      location: string;
-      type: string;
-      category: string;
-      description: string;
-      requirements: string;
-      salary: string;
-      posted_date: string;
-      featured: number;
-    }>(
+    const result = await db.getFirstAsync<JobRow>(
       'SELECT * FROM jobs WHERE id = ?',
       [id]
     );
     
     if (!result) return null;
     
-    return {
-      id: result.id,
-      title: result.title,
-      company: result.company,
-      location: result.location,
-      type: result.type,
-      category: result.category,
-      description: result.description,
-      requirements: result.requirements,
-      salary: tryParseJSON(result.salary) || result.salary,
-      postedDate: result.posted_date,
-      featured: result.featured === 1,
-    };
+    return mapJobRow(result);
   } catch (error) {
     console.error('Error getting job by id:', error);
     throw error;
   }
 };
 
+/**
+ * Turn user input into an FTS5 query.
+ * Quoted text becomes a phrase query and every other word is matched as a prefix.
+ */
+export const buildMatchQuery = (input: string): string | null => {
+  const terms: string[] = [];
+  
+  // Pull out "quoted phrases" first
+  const remainder = input.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = phrase.match(/[\p{L}\p{N}]+/gu);
+    if (words) {
+      terms.push(`"${words.join(' ')}"`);
+    }
+    return ' ';
+  });
+  
+  // Quote each word so FTS5 operators (AND, OR, NEAR...) are treated as text
+  const words = remainder.match(/[\p{L}\p{N}]+/gu) || [];
+  words.forEach(word => {
+    terms.push(`"${word}"*`);
+  });
+  
+  return terms.length > 0 ? terms.join(' ') : null;
+};
+
+export interface SearchJobsOptions {
+  limit?: number;
+  sort?: JobSort;
+  origin?: Coordinates | null;
+}
+
+/**
+ * Full-text search over cached jobs, ranked by bm25 relevance
+ * (title and company weigh more than description and requirements)
+ */
+export const searchJobs = async (
+  query: string,
+  filters: JobFilters = {},
+  { limit = 200, sort = DEFAULT_JOB_SORT, origin }: SearchJobsOptions = {}
+): Promise<Job[]> => {
+  const matchQuery = buildMatchQuery(query);
+  const { conditions, params } = buildFilterClause(filters, 'jobs');
+  const order = buildOrderClause(sort, {
+    origin,
+    rankExpression: matchQuery ? 'bm25(jobs_fts, 10.0, 5.0, 3.0, 1.0, 1.0, 2.0)' : undefined,
+  });
+  
+  try {
+    const db = await openDatabase();
+    let rows: JobRow[];
+    
+    if (matchQuery) {
+      rows = await db.getAllAsync<JobRow>(
+        `SELECT jobs.* FROM jobs_fts
+         JOIN jobs ON jobs.rowid = jobs_fts.rowid
+         WHERE jobs_fts MATCH ?${conditions.map(condition => ` AND ${condition}`).join('')}
+         ORDER BY ${order.orderBy}
+         LIMIT ?`,
+        [matchQuery, ...params, ...order.params, limit]
+      );
+    } else {
+      rows = await db.getAllAsync<JobRow>(
+        `SELECT * FROM jobs
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         ORDER BY ${order.orderBy}
+         LIMIT ?`,
+        [...params, ...order.params, limit]
+      );
+    }
+    
+    return mapJobRows(rows);
+  } catch (error) {
+    console.error('Error searching jobs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Count cached jobs per value of a column for the given search and filters
+ */
+const countJobsBy = async (
+  db: SQLite.SQLiteDatabase,
+  column: 'category' | 'type',
+  matchQuery: string | null,
+  filters: JobFilters
+): Promise<Record<string, number>> => {
+  const { conditions, params } = buildFilterClause(filters, 'jobs');
+  
+  const rows = matchQuery
+    ? await db.getAllAsync<{ value: string; count: number }>(
+        `SELECT jobs.${column} AS value, COUNT(*) AS count FROM jobs_fts
+         JOIN jobs ON jobs.rowid = jobs_fts.rowid
+         WHERE jobs_fts MATCH ?${conditions.map(condition => ` AND ${condition}`).join('')}
+         GROUP BY jobs.${column}`,
+        [matchQuery, ...params]
+      )
+    : await db.getAllAsync<{ value: string; count: number }>(
+        `SELECT ${column} AS value, COUNT(*) AS count FROM jobs
+         ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+         GROUP BY ${column}`,
+        params
+      );
+  
+  return rows.reduce<Record<string, number>>((counts, row) => {
+    counts[row.value] = row.count;
+    return counts;
+  }, {});
+};
+
+/**
+ * Count how many cached jobs each category and job type option would give.
+ * Each facet ignores its own selection so the counts show what picking another option adds.
+ */
+export const getFacetCounts = async (query: string, filters: JobFilters): Promise<FacetCounts> => {
+  const matchQuery = buildMatchQuery(query);
+  
+  try {
+    const db = await openDatabase();
+    const [categories, types] = await Promise.all([
+      countJobsBy(db, 'category', matchQuery, { ...filters, categories: undefined }),
+      countJobsBy(db, 'type', matchQuery, { ...filters, types: undefined }),
+    ]);
+    
+    return { categories, types };
+  } catch (error) {
+    console.error('Error counting job facets:', error);
+    throw error;
+  }
+};
+
+export interface SavedJob {
+  job: Job;
+  savedAt: string;
+}
+
+/**
+ * Bookmark a job
+ */
+export const addSavedJob = async (job: Job): Promise<SavedJob> => {
+  try {
+    const db = await openDatabase();
+    const savedAt = new Date().toISOString();
+    
+    await db.runAsync(
+      'INSERT OR REPLACE INTO saved_jobs (job_id, job_data, saved_at) VALUES (?, ?, ?)',
+      [job.id, JSON.stringify(job), savedAt]
+    );
+    
+    return { job, savedAt };
+  } catch (error) {
+    console.error('Error saving job for later:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a bookmark
+ */
+export const removeSavedJob = async (id: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('DELETE FROM saved_jobs WHERE job_id = ?', [id]);
+  } catch (error) {
+    console.error('Error removing saved job:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all bookmarked jobs, most recently saved first
+ */
+export const getSavedJobs = async (): Promise<SavedJob[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<{ job_id: string; job_data: string; saved_at: string }>(
+      'SELECT * FROM saved_jobs ORDER BY saved_at DESC'
+    );
+    
+    // Bookmarks store the job as it was when saved, so validate it like any other payload
+    return rows.flatMap(row => {
+      const [job] = parseJobs([tryParseJSON(row.job_data)], 'bookmark');
+      return job ? [{ job, savedAt: row.saved_at }] : [];
+    });
+  } catch (error) {
+    console.error('Error getting saved jobs:', error);
+    throw error;
+  }
+};
+
 /**
  * Helper function to try to parse JSON
  */
@@ -249,20 +587,48 @@ export const getLastSyncTime = async (): Promise<number | null> => {
 };
 
 /**
- * Set the last sync timestamp to now
+ * Set the last sync timestamp, defaulting to now
  */
-export const updateLastSyncTime = async (): Promise<void> => {
+export const updateLastSyncTime = async (timestamp: number = Date.now()): Promise<void> => {
   try {
-    await AsyncStorage.setItem(LAST_SYNC_KEY, Date.now().toString());
+    await AsyncStorage.setItem(LAST_SYNC_KEY, timestamp.toString());
   } catch (error) {
     console.error('Error updating last sync time:', error);
   }
 };
 
+/**
+ * Get the cursor of an unfinished delta sync
+ */
+export const getDeltaSyncCursor = async (): Promise<string | null> => {
+  try {
+    return await AsyncStorage.getItem(DELTA_SYNC_CURSOR_KEY);
+  } catch (error) {
+    console.error('Error getting delta sync cursor:', error);
+    return null;
+  }
+};
+
+/**
+ * Remember where an unfinished delta sync stopped, or clear it once the sync has caught up
+ */
+export const updateDeltaSyncCursor = async (cursor: string | null): Promise<void> => {
+  try {
+    if (cursor) {
+      await AsyncStorage.setItem(DELTA_SYNC_CURSOR_KEY, cursor);
+    } else {
+      await AsyncStorage.removeItem(DELTA_SYNC_CURSOR_KEY);
+    }
+  } catch (error) {
+    console.error('Error updating delta sync cursor:', error);
+  }
+};
+
 /**
  * Check if data is stale and needs to be refreshed
+ * @param maxAge - How old the last sync may be, in milliseconds
  */
-export const isDataStale = async (): Promise<boolean> => {
+export const isDataStale = async (maxAge = STALE_DATA_THRESHOLD): Promise<boolean> => {
   try {
     const lastSync = await getLastSyncTime();
     
@@ -271,20 +637,110 @@ export const isDataStale = async (): Promise<boolean> => {
     }
     
     const timeSinceLastSync = Date.now() - lastSync;
-    return timeSinceLastSync > STALE_DATA_THRESHOLD;
+    return timeSinceLastSync > maxAge;
   } catch (error) {
     console.error('Error checking if data is stale:', error);
     return true;
   }
 };
 
+export type SyncMode = 'full' | 'delta';
+
+export interface SyncLogEntry {
+  id: number;
+  mode: SyncMode;
+  status: 'running' | 'success' | 'error';
+  startedAt: string;
+  finishedAt: string | null;
+  upserted: number;
+  removed: number;
+  error: string | null;
+}
+
+/**
+ * Record the start of a sync run and return its log ID
+ */
+export const startSyncLog = async (mode: SyncMode): Promise<number> => {
+  try {
+    const db = await openDatabase();
+    const result = await db.runAsync(
+      'INSERT INTO sync_log (mode, status, started_at) VALUES (?, ?, ?)',
+      [mode, 'running', new Date().toISOString()]
+    );
+    return result.lastInsertRowId;
+  } catch (error) {
+    console.error('Error starting sync log:', error);
+    throw error;
+  }
+};
+
+/**
+ * Record the outcome of a sync run
+ */
+export const finishSyncLog = async (
+  id: number,
+  result: { upserted?: number; removed?: number; error?: string }
+): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync(
+      'UPDATE sync_log SET status = ?, finished_at = ?, upserted = ?, removed = ?, error = ? WHERE id = ?',
+      [
+        result.error ? 'error' : 'success',
+        new Date().toISOString(),
+        result.upserted ?? 0,
+        result.removed ?? 0,
+        result.error ?? null,
+        id
+      ]
+    );
+  } catch (error) {
+    console.error('Error finishing sync log:', error);
+  }
+};
+
+/**
+ * Get the most recent sync runs
+ */
+export const getSyncLog = async (limit = 20): Promise<SyncLogEntry[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<{
+      id: number;
+      mode: SyncMode;
+      status: SyncLogEntry['status'];
+      started_at: string;
+      finished_at: string | null;
+      upserted: number;
+      removed: number;
+      error: string | null;
+    }>('SELECT * FROM sync_log ORDER BY id DESC LIMIT ?', [limit]);
+    
+    return rows.map(row => ({
+      id: row.id,
+      mode: row.mode,
+      status: row.status,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      upserted: row.upserted,
+      removed: row.removed,
+      error: row.error,
+    }));
+  } catch (error) {
+    console.error('Error getting sync log:', error);
+    throw error;
+  }
+};
+
 /**
- * Delete all data from the database
+ * Delete all cached job data from the database (saved jobs are kept)
  */
 export const clearDatabase = async (): Promise<void> => {
   try {
     const db = await openDatabase();
     await db.execAsync('DELETE FROM jobs');
+    await db.execAsync('DELETE FROM jobs_fts');
+    await db.execAsync('DELETE FROM job_tombstones');
     console.log('Database cleared');
   } catch (error) {
     console.error('Error clearing database:', error);
@@ -0,0 +1,222 @@
+import type { Href } from 'expo-router';
+import Constants from 'expo-constants';
+import { getEnvironments } from './config';
+
+/**
+ * Every screen a link or notification can open
+ */
+export type AppRoute =
+  | { screen: 'jobs'; savedSearchId?: number }
+  | { screen: 'job'; jobId: string }
+  | { screen: 'jobApply'; jobId: string; companyName?: string; jobTitle?: string; location?: string }
+  | { screen: 'saved' }
+  | { screen: 'savedSearches' }
+  | { screen: 'applications' }
+  | { screen: 'digest'; deliverAt: number };
+
+/**
+ * Data sent with push notifications and scheduled local notifications
+ */
+export type NotificationPayload =
+  | {
+      type: 'new_job';
+      jobId: string;
+      // Which screen to open, the job details by default
+      screen?: 'jobDetails' | 'jobApply';
+      companyName?: string;
+      jobTitle?: string;
+      location?: string;
+    }
+  | { type: 'saved_search'; savedSearchId: number; jobId?: string }
+  // Job alerts held back by quiet hours or digest mode, grouped by delivery time
+  | { type: 'digest'; deliverAt: number }
+  // Any other notification can carry a link to open
+  | { url: string };
+
+const readString = (value: unknown): string | undefined => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+const readId = (value: unknown): number | undefined => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : undefined;
+};
+
+// Malformed escapes are kept as they are rather than failing the whole link
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+const getAppScheme = (): string => {
+  const scheme = Constants.expoConfig?.scheme;
+  return (Array.isArray(scheme) ? scheme[0] : scheme) || 'myapp';
+};
+
+// Hosts of the website, whose job pages open in the app as universal links
+const getSiteHosts = (): string[] =>
+  getEnvironments()
+    .map(environment => environment.siteUrl.match(/^https?:\/\/([^/:]+)/i)?.[1]?.toLowerCase())
+    .filter((host): host is string => !!host);
+
+/**
+ * Map the path segments and query of a link to a route
+ */
+const matchPath = (segments: string[], query: URLSearchParams): AppRoute | null => {
+  const [first, second, third] = segments;
+
+  switch (first) {
+    case undefined:
+      return { screen: 'jobs', savedSearchId: readId(query.get('savedSearchId')) };
+    case 'jobs':
+      if (!second) return { screen: 'jobs' };
+      if (third === 'apply') {
+        return {
+          screen: 'jobApply',
+          jobId: second,
+          companyName: readString(query.get('companyName')),
+          jobTitle: readString(query.get('jobTitle')),
+          location: readString(query.get('location')),
+        };
+      }
+      return third ? null : { screen: 'job', jobId: second };
+    case 'saved':
+      return { screen: 'saved' };
+    case 'saved-searches': {
+      // A single saved search opens its results in the job list
+      const savedSearchId = readId(second);
+      return savedSearchId ? { screen: 'jobs', savedSearchId } : { screen: 'savedSearches' };
+    }
+    case 'applications':
+      return { screen: 'applications' };
+    case 'digest': {
+      const deliverAt = readId(query.get('deliverAt'));
+      return deliverAt ? { screen: 'digest', deliverAt } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Turn a `myapp://` URL, a website link or an in-app path into a route
+ * @returns null when the link isn't one the app understands
+ */
+export const parseDeepLink = (url: string): AppRoute | null => {
+  const match = url.trim().match(/^(?:([a-z][a-z0-9+.-]*):\/\/([^/?#]*))?([^?#]*)(?:\?([^#]*))?/i);
+  if (!match) return null;
+
+  const [, scheme, host = '', path = '', search = ''] = match;
+  let segments = path.split('/').filter(Boolean).map(decodeSegment);
+
+  if (scheme) {
+    const normalizedScheme = scheme.toLowerCase();
+
+    if (normalizedScheme === 'http' || normalizedScheme === 'https') {
+      const hostname = host.replace(/:\d+$/, '').toLowerCase();
+      if (!getSiteHosts().includes(hostname)) return null;
+    } else if (normalizedScheme === getAppScheme().toLowerCase()) {
+      // In myapp://jobs/123 the first segment is parsed as the host
+      segments = [...host.split('/').filter(Boolean).map(decodeSegment), ...segments];
+    } else {
+      return null;
+    }
+  }
+
+  return matchPath(segments, new URLSearchParams(search));
+};
+
+/**
+ * Work out where tapping a notification should go
+ * @returns null when the payload doesn't point anywhere
+ */
+export const getNotificationRoute = (data: unknown): AppRoute | null => {
+  if (!data || typeof data !== 'object') return null;
+
+  const payload = data as Record<string, unknown>;
+  const jobId = readString(payload.jobId);
+
+  if (payload.type === 'saved_search') {
+    if (jobId) return { screen: 'job', jobId };
+    const savedSearchId = readId(payload.savedSearchId);
+    return savedSearchId ? { screen: 'jobs', savedSearchId } : { screen: 'savedSearches' };
+  }
+
+  if (payload.type === 'digest') {
+    const deliverAt = readId(payload.deliverAt);
+    return deliverAt ? { screen: 'digest', deliverAt } : null;
+  }
+
+  const url = readString(payload.url);
+  if (url) {
+    const route = parseDeepLink(url);
+    if (route) return route;
+  }
+
+  // New job pushes, and older ones that only carry a job ID
+  if (jobId) {
+    if (payload.screen === 'jobApply') {
+      return {
+        screen: 'jobApply',
+        jobId,
+        companyName: readString(payload.companyName),
+        jobTitle: readString(payload.jobTitle),
+        location: readString(payload.location),
+      };
+    }
+    return { screen: 'job', jobId };
+  }
+
+  return null;
+};
+
+/**
+ * Get the expo-router location of a route
+ */
+export const toHref = (route: AppRoute): Href => {
+  switch (route.screen) {
+    case 'jobs':
+      return route.savedSearchId
+        ? { pathname: '/', params: { savedSearchId: String(route.savedSearchId) } }
+        : '/';
+    case 'job':
+      return { pathname: '/jobs/[id]', params: { id: route.jobId } };
+    case 'jobApply': {
+      const { jobId, companyName, jobTitle, location } = route;
+      // Leave out missing details so the apply screen loads them from the job instead
+      const details = Object.entries({ companyName, jobTitle, location }).filter(([, value]) => value);
+      return { pathname: '/jobs/[id]/apply', params: { ...Object.fromEntries(details), id: jobId } };
+    }
+    case 'saved':
+      return '/saved';
+    case 'savedSearches':
+      return '/saved-searches';
+    case 'applications':
+      return '/applications';
+    case 'digest':
+      return { pathname: '/digest', params: { deliverAt: String(route.deliverAt) } };
+  }
+};
+
+/**
+ * Get the route as a URL path, e.g. "/jobs/123/apply?jobTitle=Designer"
+ */
+export const toPath = (route: AppRoute): string => {
+  const href = toHref(route);
+  if (typeof href === 'string') return href;
+
+  const params: Record<string, string> = { ...(href.params as Record<string, string>) };
+  const pathname = href.pathname.replace(/\[(\w+)\]/g, (_, key: string) => {
+    const value = params[key];
+    delete params[key];
+    return encodeURIComponent(value);
+  });
+  const query = new URLSearchParams(params).toString();
+
+  return query ? `${pathname}?${query}` : pathname;
+};
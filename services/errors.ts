@@ -0,0 +1,93 @@
+/**
+ * Errors raised by the API layer, so screens can tell what went wrong and react to it
+ */
+
+export type ApiErrorKind = 'not_found' | 'server' | 'network' | 'invalid_payload';
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  // HTTP status, when the server answered
+  status: number | null;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'The requested item was not found', status: number | null = 404) {
+    super('not_found', message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ServerError extends ApiError {
+  // How long the server asked us to wait before trying again (Retry-After), if it said
+  retryAfterMs: number | null;
+
+  constructor(status: number, message = `Server error (status ${status})`, retryAfterMs: number | null = null) {
+    super('server', message, status);
+    this.name = 'ServerError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Could not reach the server') {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+// The request was sent but no response came in time, so the server may still have acted on it
+export class TimeoutError extends NetworkError {
+  constructor(message = 'The server took too long to respond') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class InvalidPayloadError extends ApiError {
+  // What was wrong with the response, one entry per problem
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super('invalid_payload', message);
+    this.name = 'InvalidPayloadError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Check if the server turned a request down, so sending it again unchanged can't succeed.
+ * 408 Request Timeout and 429 Too Many Requests only ask for another try later.
+ */
+export const isRejectionError = (error: unknown): boolean =>
+  error instanceof ApiError
+  && error.status !== null
+  && error.status < 500
+  && error.status !== 408
+  && error.status !== 429;
+
+/**
+ * Turn any error into a message that can be shown to the user
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    switch (error.kind) {
+      case 'not_found':
+        return "We couldn't find what you were looking for. It may have been moved or removed.";
+      case 'network':
+        return 'No internet connection. Please connect to a network and try again.';
+      case 'invalid_payload':
+        return 'We received incomplete information for this job. Please try again later.';
+      case 'server':
+        return 'Our servers are having trouble right now. Please try again in a moment.';
+    }
+  }
+
+  return 'Something went wrong. Please try again.';
+};
@@ -0,0 +1,41 @@
+import * as FileSystem from 'expo-file-system';
+import { ResumeFile } from './api';
+
+/**
+ * Copy a picked document into the app's document directory.
+ * Picker results live in the cache directory, which the OS may purge at any time.
+ * @param folder - Sub-folder of the document directory to store the file in
+ */
+export const persistDocument = async (file: ResumeFile, folder: string): Promise<ResumeFile> => {
+  if (!FileSystem.documentDirectory) {
+    // Not available on web; keep using the original file
+    return file;
+  }
+
+  const directory = `${FileSystem.documentDirectory}${folder}/`;
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const destination = `${directory}${Date.now()}-${safeName}`;
+
+  try {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    await FileSystem.copyAsync({ from: file.uri, to: destination });
+    return { ...file, uri: destination };
+  } catch (error) {
+    console.error('Error persisting document:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a document previously stored with persistDocument
+ */
+export const deleteDocument = async (uri: string): Promise<void> => {
+  // Never delete files we do not own
+  if (!FileSystem.documentDirectory || !uri.startsWith(FileSystem.documentDirectory)) return;
+
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+  }
+};
@@ -0,0 +1,216 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError, InvalidPayloadError, NetworkError, NotFoundError, ServerError, TimeoutError } from './errors';
+
+// Prefix of the AsyncStorage keys holding ETag-cached responses
+const ETAG_CACHE_PREFIX = 'http_etag:';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRY_DELAY_MS = 500;
+// Retry delays are capped so a flaky server can't stall a screen for long
+const MAX_RETRY_DELAY_MS = 8000;
+
+export interface RequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: BodyInit | null;
+  // Abort the request if no response arrives in time
+  timeoutMs?: number;
+  // Extra attempts after network failures and 5xx responses. Defaults to 2 for GET and 0 otherwise,
+  // since repeating other methods may not be safe.
+  retries?: number;
+  // Delay before the first retry; doubles on every attempt
+  retryDelayMs?: number;
+  // Cancels the request, e.g. when the screen that made it unmounts
+  signal?: AbortSignal;
+  // Send If-None-Match and reuse the cached body when the server answers 304 Not Modified
+  useETag?: boolean;
+}
+
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  // True when the body came from the ETag cache because nothing changed
+  notModified: boolean;
+}
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+}
+
+/**
+ * Check if an error comes from the request being cancelled by its caller
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Build the error thrown when a caller cancels a request
+ */
+export const createAbortError = (): Error => {
+  const error = new Error('The request was cancelled');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Wait before retrying, stopping early if the caller cancels
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+const getRetryDelay = (attempt: number, baseDelay: number): number => {
+  const delay = Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  // Jitter keeps many clients from retrying in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const readCachedResponse = async (url: string): Promise<CachedResponse | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(ETAG_CACHE_PREFIX + url);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Error reading cached response:', error);
+    return null;
+  }
+};
+
+const writeCachedResponse = async (url: string, cached: CachedResponse): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(ETAG_CACHE_PREFIX + url, JSON.stringify(cached));
+  } catch (error) {
+    console.error('Error caching response:', error);
+  }
+};
+
+/**
+ * Make one attempt, turning timeouts into TimeoutError and connection failures into NetworkError
+ */
+const fetchOnce = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(`The request timed out after ${timeoutMs / 1000}s`);
+    if (signal?.aborted) throw createAbortError();
+    // fetch only rejects when the request never got a response
+    throw new NetworkError(error instanceof Error ? error.message : undefined);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Read a Retry-After header, given either in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or null when there is none
+ */
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (value.trim() && Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Build the typed error for a failed response, using the server's message when it sends one
+ */
+const toResponseError = async (response: Response): Promise<ApiError> => {
+  const body = await response.json().catch(() => null);
+  const message = body && typeof body.message === 'string' ? body.message : undefined;
+
+  if (response.status === 404) return new NotFoundError(message);
+  return new ServerError(response.status, message, parseRetryAfter(response.headers.get('Retry-After')));
+};
+
+/**
+ * Send an HTTP request and parse the JSON response.
+ * Retries network failures and 5xx responses with exponential backoff.
+ * @throws NotFoundError, ServerError, NetworkError, InvalidPayloadError, or an AbortError when cancelled
+ */
+export const requestJson = async <T = unknown>(url: string, options: RequestOptions = {}): Promise<HttpResponse<T>> => {
+  const {
+    method = 'GET',
+    headers = {},
+    body,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = method === 'GET' ? 2 : 0,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    signal,
+    useETag = false,
+  } = options;
+
+  const cached = useETag ? await readCachedResponse(url) : null;
+  const init: RequestInit = {
+    method,
+    body,
+    headers: {
+      Accept: 'application/json',
+      ...headers,
+      ...(cached ? { 'If-None-Match': cached.etag } : {}),
+    },
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw createAbortError();
+
+    try {
+      const response = await fetchOnce(url, init, timeoutMs, signal);
+
+      if (response.status === 304 && cached) {
+        return { data: JSON.parse(cached.body), status: response.status, notModified: true };
+      }
+
+      if (!response.ok) {
+        throw await toResponseError(response);
+      }
+
+      const text = await response.text();
+      let data: T;
+      try {
+        data = text ? JSON.parse(text) : null;
+      } catch {
+        throw new InvalidPayloadError(`Response from ${url} was not valid JSON`);
+      }
+
+      const etag = response.headers.get('ETag');
+      if (useETag && etag) {
+        await writeCachedResponse(url, { etag, body: text });
+      }
+
+      return { data, status: response.status, notModified: false };
+    } catch (error) {
+      const isRetryable = error instanceof NetworkError || (error instanceof ServerError && (error.status ?? 0) >= 500);
+      if (!isRetryable || attempt >= retries) throw error;
+
+      const delay = getRetryDelay(attempt, retryDelayMs);
+      console.log(`Request to ${url} failed (${(error as Error).message}), retrying in ${Math.round(delay)}ms`);
+      await wait(delay, signal);
+    }
+  }
+};
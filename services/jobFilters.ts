@@ -0,0 +1,214 @@
+import { Job } from './api';
+import { getAnnualSalaryRange, matchesSalaryRange } from './salary';
+
+export type PostedWithin = '24h' | '7d' | '30d';
+export type Workplace = 'remote' | 'hybrid' | 'on-site';
+
+export const POSTED_WITHIN_OPTIONS: { value: PostedWithin; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+];
+
+export const WORKPLACE_OPTIONS: { value: Workplace; label: string }[] = [
+  { value: 'remote', label: 'Remote' },
+  { value: 'hybrid', label: 'Hybrid' },
+  { value: 'on-site', label: 'On-site' },
+];
+
+const POSTED_WITHIN_MS: Record<PostedWithin, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+export interface JobFilters {
+  // A job matches when it is in any of the selected categories / types
+  categories?: string[];
+  location?: string;
+  types?: string[];
+  featured?: boolean;
+  // Annual salary bounds
+  minSalary?: number;
+  maxSalary?: number;
+  postedWithin?: PostedWithin;
+  workplace?: Workplace;
+}
+
+/**
+ * Work out whether a job is remote, hybrid or on-site from its workplace field,
+ * falling back to a "Remote" location
+ */
+export const normalizeWorkplace = (job: Pick<Job, 'workplace' | 'location'>): Workplace | null => {
+  const value = (job.workplace || '').toLowerCase().replace(/[^a-z]/g, '');
+
+  if (value.includes('hybrid')) return 'hybrid';
+  if (value.includes('remote')) return 'remote';
+  if (value === 'onsite' || value === 'inoffice' || value === 'office' || value === 'inperson') return 'on-site';
+  if (!value && /\bremote\b/i.test(job.location || '')) return 'remote';
+  return null;
+};
+
+/**
+ * Get the earliest posted date that still matches a "posted within" filter
+ */
+export const getPostedCutoff = (postedWithin: PostedWithin, now = Date.now()): Date => {
+  return new Date(now - POSTED_WITHIN_MS[postedWithin]);
+};
+
+/**
+ * Check if any filter is set
+ */
+export const hasActiveFilters = (filters: JobFilters): boolean => {
+  return !!(
+    filters.categories?.length ||
+    filters.location ||
+    filters.types?.length ||
+    filters.featured ||
+    filters.minSalary != null ||
+    filters.maxSalary != null ||
+    filters.postedWithin ||
+    filters.workplace
+  );
+};
+
+/**
+ * Check if a job matches a plain text query (used when the search index is unavailable)
+ */
+export const matchesSearchQuery = (job: Job, searchQuery: string): boolean => {
+  const query = searchQuery.trim().toLowerCase();
+  if (!query) return true;
+
+  const requirements = job.requirements.join(' ');
+
+  return [job.title, job.company, job.location, job.description, job.category, requirements]
+    .some(value => value.toLowerCase().includes(query));
+};
+
+/**
+ * Apply filters to jobs held in memory
+ */
+export const filterJobs = (jobs: Job[], filters: JobFilters): Job[] => {
+  let result = jobs;
+
+  if (filters.categories?.length) {
+    const categories = filters.categories;
+    result = result.filter(job => !!job.category && categories.includes(job.category));
+  }
+
+  if (filters.location) {
+    result = result.filter(job => job.location === filters.location);
+  }
+
+  if (filters.types?.length) {
+    const types = filters.types;
+    result = result.filter(job => types.includes(job.type));
+  }
+
+  if (filters.featured) {
+    result = result.filter(job => job.featured);
+  }
+
+  if (filters.minSalary != null || filters.maxSalary != null) {
+    result = result.filter(job => matchesSalaryRange(job.salary, filters.minSalary, filters.maxSalary));
+  }
+
+  if (filters.postedWithin) {
+    const cutoff = getPostedCutoff(filters.postedWithin).getTime();
+    result = result.filter(job => new Date(job.postedDate).getTime() >= cutoff);
+  }
+
+  if (filters.workplace) {
+    result = result.filter(job => normalizeWorkplace(job) === filters.workplace);
+  }
+
+  return result;
+};
+
+export interface JobFilterColumns {
+  salaryMinAnnual: number | null;
+  salaryMaxAnnual: number | null;
+  workplaceType: Workplace | null;
+}
+
+/**
+ * Add a value to a multi-select filter, or remove it if it is already selected
+ * @returns The new selection, or undefined when nothing is left selected
+ */
+export const toggleFilterValue = (values: string[] | undefined, value: string): string[] | undefined => {
+  const current = values || [];
+  const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+  return next.length > 0 ? next : undefined;
+};
+
+export interface FacetCounts {
+  categories: Record<string, number>;
+  types: Record<string, number>;
+}
+
+/**
+ * Get the values stored alongside a job row so the SQL filters can match them
+ */
+export const getFilterColumns = (job: Pick<Job, 'salary' | 'workplace' | 'location'>): JobFilterColumns => {
+  const range = getAnnualSalaryRange(job.salary);
+
+  return {
+    salaryMinAnnual: range ? range.min ?? range.max : null,
+    salaryMaxAnnual: range ? range.max ?? range.min : null,
+    workplaceType: normalizeWorkplace(job),
+  };
+};
+
+/**
+ * Build the SQL conditions for the same filters as filterJobs
+ * @param table - Alias of the jobs table in the query
+ */
+export const buildFilterClause = (
+  filters: JobFilters,
+  table = 'jobs'
+): { conditions: string[]; params: (string | number)[] } => {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.categories?.length) {
+    conditions.push(`${table}.category IN (${filters.categories.map(() => '?').join(', ')})`);
+    params.push(...filters.categories);
+  }
+
+  if (filters.location) {
+    conditions.push(`${table}.location = ?`);
+    params.push(filters.location);
+  }
+
+  if (filters.types?.length) {
+    conditions.push(`${table}.type IN (${filters.types.map(() => '?').join(', ')})`);
+    params.push(...filters.types);
+  }
+
+  if (filters.featured) {
+    conditions.push(`${table}.featured = 1`);
+  }
+
+  // Jobs without a parsed salary have NULL bounds and never match, as in filterJobs
+  if (filters.minSalary != null) {
+    conditions.push(`${table}.salary_max_annual >= ?`);
+    params.push(filters.minSalary);
+  }
+
+  if (filters.maxSalary != null) {
+    conditions.push(`${table}.salary_min_annual <= ?`);
+    params.push(filters.maxSalary);
+  }
+
+  if (filters.postedWithin) {
+    conditions.push(`${table}.posted_date >= ?`);
+    params.push(getPostedCutoff(filters.postedWithin).toISOString());
+  }
+
+  if (filters.workplace) {
+    conditions.push(`${table}.workplace_type = ?`);
+    params.push(filters.workplace);
+  }
+
+  return { conditions, params };
+};
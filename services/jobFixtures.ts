@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Job } from './api';
+
+// Storage key for the fixture toggle (development builds only)
+const JOB_FIXTURES_KEY = 'use_job_fixtures';
+
+// Fixtures are never served unless someone turns them on in a development build
+let fixturesEnabled = false;
+
+/**
+ * Whether job fixtures can be used at all in this build
+ */
+export const canUseJobFixtures = (): boolean => __DEV__;
+
+/**
+ * Whether job requests are currently answered from fixtures instead of the API
+ */
+export const areJobFixturesEnabled = (): boolean => canUseJobFixtures() && fixturesEnabled;
+
+/**
+ * Restore the fixture toggle. Should be called once at startup.
+ */
+export const loadJobFixturesSetting = async (): Promise<void> => {
+  if (!canUseJobFixtures()) return;
+
+  try {
+    fixturesEnabled = (await AsyncStorage.getItem(JOB_FIXTURES_KEY)) === 'true';
+    if (fixturesEnabled) {
+      console.log('Serving job details from fixtures');
+    }
+  } catch (error) {
+    console.error('Error loading job fixtures setting:', error);
+  }
+};
+
+/**
+ * Turn job fixtures on or off (development builds only)
+ */
+export const setJobFixturesEnabled = async (enabled: boolean): Promise<void> => {
+  if (!canUseJobFixtures()) {
+    throw new Error('Job fixtures are not available in this build');
+  }
+
+  fixturesEnabled = enabled;
+  await AsyncStorage.setItem(JOB_FIXTURES_KEY, String(enabled));
+};
+
+/**
+ * Get the fixture job for an ID. Every ID returns the same sample posting.
+ */
+export const getFixtureJob = (id: string): Job => {
+  console.log(`Using fixture data for job ID: ${id}`);
+  
+  return {
+    id: id,
+    title: 'Senior React Native Developer',
+    company: 'Tech Innovations Inc',
+    companyLogo: 'https://placehold.co/200x200/4F46E5/FFFFFF?text=TI',
+    location: 'San Francisco, CA',
+    type: 'Full-time',
+    salary: {
+      min: 120000,
+      max: 150000,
+      currency: 'USD',
+      period: 'year'
+    },
+    workplace: 'Remote',
+    description: 'We are seeking an experienced React Native developer to join our mobile development team. The ideal candidate will have a strong background in building cross-platform mobile applications with React Native, a solid understanding of native mobile platforms, and experience with state management solutions.\n\nYou will work closely with designers, product managers, and other engineers to develop new features, improve performance, and ensure the quality of our mobile applications.',
+    requirements: [
+      'At least 4 years of experience with React Native development',
+      'Strong understanding of JavaScript, TypeScript, and React Native best practices',
+      'Experience with state management solutions (Redux, Context API, MobX)',
+      'Familiarity with native build tools (Xcode, Android Studio)',
+      'Knowledge of RESTful APIs and GraphQL',
+      'Bachelor\'s degree in Computer Science or related field (or equivalent experience)'
+    ],
+    benefits: [
+      'Competitive salary and equity package',
+      'Health, dental, and vision insurance',
+      'Flexible work schedule and remote work options',
+      'Generous PTO policy',
+      '401(k) matching',
+      'Professional development budget',
+      'Wellness program'
+    ],
+    postedDate: new Date(Date.now() - 5 * 86400000).toISOString(), // 5 days ago
+    featured: true,
+    category: 'software-development'
+  };
+};
@@ -0,0 +1,182 @@
+import { Job, Salary } from './api';
+import { normalizeSalary } from './salary';
+
+/**
+ * Thrown when a job payload can't be turned into a valid Job
+ */
+export class JobValidationError extends Error {
+  // One entry per field that failed, e.g. "title: expected a non-empty string"
+  issues: string[];
+  payload: unknown;
+
+  constructor(issues: string[], payload: unknown, source = 'payload') {
+    super(`Invalid job ${source}: ${issues.join('; ')}`);
+    this.name = 'JobValidationError';
+    this.issues = issues;
+    this.payload = payload;
+  }
+}
+
+type JobPayload = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JobPayload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Read the job ID from a payload, accepting both `id` and Mongo-style `_id`
+ */
+export const getPayloadId = (payload: unknown): string | null => {
+  if (!isRecord(payload)) return null;
+  const value = payload.id ?? payload._id;
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+};
+
+/**
+ * Validate a raw job from the API or the local database and normalize it into a strict Job
+ * @param source - Where the payload came from, used in error messages
+ * @throws JobValidationError listing every invalid field
+ */
+export const parseJob = (payload: unknown, source = 'payload'): Job => {
+  if (!isRecord(payload)) {
+    throw new JobValidationError([`expected an object, got ${describe(payload)}`], payload, source);
+  }
+
+  const issues: string[] = [];
+
+  const readString = (field: string, value: unknown, required = false): string => {
+    if (typeof value === 'string') {
+      if (required && !value.trim()) issues.push(`${field}: expected a non-empty string`);
+      return value.trim();
+    }
+    if (typeof value === 'number' && !required) return String(value);
+    if (value == null && !required) return '';
+    issues.push(`${field}: expected ${required ? 'a non-empty string' : 'a string'}, got ${describe(value)}`);
+    return '';
+  };
+
+  // Lists arrive either as arrays or as newline separated text
+  const readStringList = (field: string, value: unknown): string[] => {
+    if (value == null) return [];
+    if (typeof value === 'string') return value.split('\n').map(item => item.trim()).filter(Boolean);
+    if (Array.isArray(value)) {
+      const invalid = value.findIndex(item => typeof item !== 'string');
+      if (invalid !== -1) {
+        issues.push(`${field}[${invalid}]: expected a string, got ${describe(value[invalid])}`);
+        return [];
+      }
+      return value.map(item => item.trim()).filter(Boolean);
+    }
+    issues.push(`${field}: expected a list or text, got ${describe(value)}`);
+    return [];
+  };
+
+  const readCoordinate = (field: string, value: unknown): number | null => {
+    if (value == null) return null;
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    issues.push(`${field}: expected a number, got ${describe(value)}`);
+    return null;
+  };
+
+  const readSalary = (value: unknown): Salary | string => {
+    if (value == null || value === '') return '';
+    if (typeof value === 'string') {
+      // Keep descriptive text such as "Competitive" when there are no amounts to parse
+      return normalizeSalary(value) || value.trim();
+    }
+    if (isRecord(value)) {
+      const toAmount = (key: 'min' | 'max') => {
+        const amount = value[key];
+        if (amount == null || amount === '') return undefined;
+        const parsed = typeof amount === 'string' ? Number(amount.replace(/,/g, '')) : amount;
+        if (typeof parsed === 'number' && Number.isFinite(parsed)) return parsed;
+        issues.push(`salary.${key}: expected a number, got ${describe(amount)}`);
+        return undefined;
+      };
+      const salary: Salary = {
+        min: toAmount('min'),
+        max: toAmount('max'),
+        currency: typeof value.currency === 'string' ? value.currency : undefined,
+        period: typeof value.period === 'string' ? value.period : undefined,
+      };
+      return normalizeSalary(salary) || '';
+    }
+    issues.push(`salary: expected an object or text, got ${describe(value)}`);
+    return '';
+  };
+
+  const readPostedDate = (value: unknown): string => {
+    if (value == null) {
+      issues.push('postedDate: missing');
+      return '';
+    }
+    const date = value instanceof Date
+      ? value
+      : typeof value === 'string' || typeof value === 'number'
+        ? new Date(value)
+        : null;
+    if (!date || isNaN(date.getTime())) {
+      issues.push(`postedDate: expected a date, got ${JSON.stringify(value)}`);
+      return '';
+    }
+    return date.toISOString();
+  };
+
+  const id = getPayloadId(payload);
+  if (!id) issues.push(`id: missing (checked "id" and "_id")`);
+
+  // Some endpoints embed the company as an object
+  const company = isRecord(payload.company) ? payload.company.name : payload.company;
+  const companyLogo = payload.companyLogo ?? (isRecord(payload.company) ? payload.company.logo : undefined);
+  const workplace = readString('workplace', payload.workplace);
+
+  const job: Job = {
+    id: id || '',
+    title: readString('title', payload.title, true),
+    company: readString('company', company, true),
+    companyLogo: readString('companyLogo', companyLogo) || null,
+    location: readString('location', payload.location),
+    type: readString('type', payload.type),
+    salary: readSalary(payload.salary),
+    workplace: workplace || undefined,
+    description: readString('description', payload.description),
+    requirements: readStringList('requirements', payload.requirements),
+    benefits: readStringList('benefits', payload.benefits),
+    postedDate: readPostedDate(payload.postedDate ?? payload.createdAt),
+    featured: payload.featured === true || payload.featured === 1,
+    category: readString('category', payload.category),
+    latitude: readCoordinate('latitude', payload.latitude),
+    longitude: readCoordinate('longitude', payload.longitude),
+  };
+
+  if (issues.length > 0) {
+    throw new JobValidationError(issues, payload, id ? `${source} ${id}` : source);
+  }
+
+  return job;
+};
+
+/**
+ * Parse a list of raw jobs. Invalid entries are reported and left out rather than breaking the whole list.
+ */
+export const parseJobs = (payloads: unknown[], source = 'payload'): Job[] => {
+  const jobs: Job[] = [];
+
+  payloads.forEach(payload => {
+    try {
+      jobs.push(parseJob(payload, source));
+    } catch (error) {
+      if (!(error instanceof JobValidationError)) throw error;
+      console.warn(error.message);
+    }
+  });
+
+  return jobs;
+};
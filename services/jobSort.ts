@@ -0,0 +1,206 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Job } from './api';
+import { getAnnualSalaryRange } from './salary';
+
+// Constants
+const JOB_SORT_KEY = 'job_sort';
+
+export type JobSort = 'relevance' | 'newest' | 'salary' | 'company' | 'distance';
+
+// Relevance keeps the original ordering (featured, then newest) when there is no search query
+export const DEFAULT_JOB_SORT: JobSort = 'relevance';
+
+export const SORT_OPTIONS: { value: JobSort; label: string; icon: string }[] = [
+  { value: 'relevance', label: 'Most relevant', icon: 'star' },
+  { value: 'newest', label: 'Newest', icon: 'clock' },
+  { value: 'salary', label: 'Highest salary', icon: 'dollar-sign' },
+  { value: 'company', label: 'Company A–Z', icon: 'sort-alpha-down' },
+  { value: 'distance', label: 'Nearest', icon: 'map-marker-alt' },
+];
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SortContext {
+  // Search text, used to rank by relevance
+  query?: string;
+  // User position, required for distance sorting
+  origin?: Coordinates | null;
+}
+
+/**
+ * Load the sort the user picked last time
+ */
+export const loadJobSort = async (): Promise<JobSort> => {
+  try {
+    const stored = await AsyncStorage.getItem(JOB_SORT_KEY);
+    return SORT_OPTIONS.some(option => option.value === stored) ? (stored as JobSort) : DEFAULT_JOB_SORT;
+  } catch (error) {
+    console.error('Error loading job sort:', error);
+    return DEFAULT_JOB_SORT;
+  }
+};
+
+/**
+ * Remember the chosen sort
+ */
+export const saveJobSort = async (sort: JobSort): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(JOB_SORT_KEY, sort);
+  } catch (error) {
+    console.error('Error saving job sort:', error);
+  }
+};
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+export const getDistanceKm = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Simple relevance score used when the full-text index is not available.
+ * Weights follow the bm25 column weights of the search index.
+ */
+const getRelevanceScore = (job: Job, query: string): number => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const requirements = job.requirements.join(' ');
+  const fields: [string, number][] = [
+    [job.title, 10],
+    [job.company, 5],
+    [job.location, 3],
+    [job.description, 1],
+    [requirements, 1],
+    [job.category, 2],
+  ];
+
+  return words.reduce((score, word) => {
+    return score + fields.reduce((sum, [value, weight]) => sum + (value.toLowerCase().includes(word) ? weight : 0), 0);
+  }, 0);
+};
+
+const getPostedTime = (job: Job): number => {
+  const time = new Date(job.postedDate).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * Compare text the way SQLite's NOCASE collation does: only ASCII letters ignore case,
+ * and everything else (including accented letters) compares by character code
+ */
+const compareNoCase = (a: string, b: string): number => {
+  const foldedA = a.replace(/[A-Z]/g, letter => letter.toLowerCase());
+  const foldedB = b.replace(/[A-Z]/g, letter => letter.toLowerCase());
+  if (foldedA === foldedB) return 0;
+  return foldedA < foldedB ? -1 : 1;
+};
+
+// Featured first, then newest: the app's original ordering and the tie-breaker for every sort
+const compareDefault = (a: Job, b: Job): number => {
+  return Number(!!b.featured) - Number(!!a.featured) || getPostedTime(b) - getPostedTime(a);
+};
+
+/**
+ * Sort jobs held in memory the same way buildOrderClause sorts them in SQLite
+ */
+export const sortJobs = (jobs: Job[], sort: JobSort, { query = '', origin }: SortContext = {}): Job[] => {
+  const sorted = [...jobs];
+
+  switch (sort) {
+    case 'newest':
+      return sorted.sort((a, b) => getPostedTime(b) - getPostedTime(a));
+
+    case 'salary': {
+      const salaries = new Map(sorted.map(job => [job.id, getAnnualSalaryRange(job.salary)]));
+      const getTop = (job: Job) => {
+        const range = salaries.get(job.id);
+        return range ? range.max ?? range.min : null;
+      };
+      // Jobs without a salary go last
+      return sorted.sort((a, b) => {
+        const topA = getTop(a);
+        const topB = getTop(b);
+        if (topA == null || topB == null) return Number(topA == null) - Number(topB == null) || compareDefault(a, b);
+        return topB - topA || compareDefault(a, b);
+      });
+    }
+
+    case 'company':
+      return sorted.sort((a, b) => compareNoCase(a.company, b.company) || compareDefault(a, b));
+
+    case 'distance': {
+      if (!origin) return sorted.sort(compareDefault);
+      const getDistance = (job: Job) =>
+        job.latitude != null && job.longitude != null
+          ? getDistanceKm(origin, { latitude: job.latitude, longitude: job.longitude })
+          : null;
+      // Jobs without coordinates (e.g. remote) go last
+      return sorted.sort((a, b) => {
+        const distanceA = getDistance(a);
+        const distanceB = getDistance(b);
+        if (distanceA == null || distanceB == null) return Number(distanceA == null) - Number(distanceB == null) || compareDefault(a, b);
+        return distanceA - distanceB || compareDefault(a, b);
+      });
+    }
+
+    case 'relevance':
+    default: {
+      if (!query.trim()) return sorted.sort(compareDefault);
+      const scores = new Map(sorted.map(job => [job.id, getRelevanceScore(job, query)]));
+      return sorted.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || compareDefault(a, b));
+    }
+  }
+};
+
+/**
+ * Build the ORDER BY clause for a sort
+ * @param table - Alias of the jobs table in the query
+ * @param rankExpression - Full-text rank to use for relevance, when the query has a MATCH
+ */
+export const buildOrderClause = (
+  sort: JobSort,
+  { table = 'jobs', rankExpression, origin }: { table?: string; rankExpression?: string; origin?: Coordinates | null } = {}
+): { orderBy: string; params: number[] } => {
+  const tieBreaker = `${table}.featured DESC, ${table}.posted_date DESC`;
+
+  switch (sort) {
+    case 'newest':
+      return { orderBy: `${table}.posted_date DESC`, params: [] };
+
+    case 'salary':
+      return {
+        orderBy: `${table}.salary_max_annual IS NULL, ${table}.salary_max_annual DESC, ${tieBreaker}`,
+        params: [],
+      };
+
+    case 'company':
+      return { orderBy: `${table}.company COLLATE NOCASE ASC, ${tieBreaker}`, params: [] };
+
+    case 'distance': {
+      if (!origin) return { orderBy: tieBreaker, params: [] };
+      // SQLite has no trig functions, so order by an equirectangular approximation;
+      // scaling longitude by cos(latitude) keeps the ranking close to the real distance
+      const lngScale = Math.cos((origin.latitude * Math.PI) / 180);
+      return {
+        orderBy: `${table}.latitude IS NULL,
+          ((${table}.latitude - ?) * (${table}.latitude - ?)
+            + ((${table}.longitude - ?) * ?) * ((${table}.longitude - ?) * ?)) ASC,
+          ${tieBreaker}`,
+        params: [origin.latitude, origin.latitude, origin.longitude, lngScale, origin.longitude, lngScale],
+      };
+    }
+
+    case 'relevance':
+    default:
+      return { orderBy: rankExpression ? `${rankExpression}, ${tieBreaker}` : tieBreaker, params: [] };
+  }
+};
@@ -0,0 +1,544 @@
+import NetInfo from '@react-native-community/netinfo';
+import { fetchJobs, fetchJobById, Job, Category, getCategories, JOBS_PAGE_SIZE } from './api';
+import * as Database from './database';
+import { syncJobs } from './sync';
+import { evaluateSavedSearches } from './savedSearches';
+import { NetworkError } from './errors';
+import { createAbortError, isAbortError } from './http';
+import { getBackgroundSyncSettings } from './backgroundSync';
+
+export interface JobsState {
+  // Jobs in feed order
+  jobs: Job[];
+  // Every job we know about, including details fetched for jobs outside the loaded feed
+  jobsById: Record<string, Job>;
+  categories: Category[];
+  savedJobs: Database.SavedJob[];
+  isLoading: boolean;
+  isRefreshing: boolean;
+  isLoadingMore: boolean;
+  isOffline: boolean;
+  error: string | null;
+  hasMore: boolean;
+  currentPage: number;
+  nextCursor: string | null;
+}
+
+type JobsStatus = Pick<JobsState, 'isLoading' | 'isRefreshing' | 'isLoadingMore' | 'isOffline' | 'error'>;
+
+interface FeedPage {
+  jobs: Job[];
+  page: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export type JobsAction =
+  | ({ type: 'feedLoaded' } & FeedPage)
+  | ({ type: 'feedExtended' } & FeedPage)
+  | { type: 'jobsSynced'; upserted: Job[]; removedIds: string[] }
+  | { type: 'jobLoaded'; job: Job }
+  | { type: 'categoriesLoaded'; categories: Category[] }
+  | { type: 'savedJobsChanged'; savedJobs: Database.SavedJob[] }
+  | { type: 'statusChanged'; status: Partial<JobsStatus> }
+  | { type: 'reset' };
+
+type JobsListener = () => void;
+
+export const initialJobsState: JobsState = {
+  jobs: [],
+  jobsById: {},
+  categories: [],
+  savedJobs: [],
+  isLoading: true,
+  isRefreshing: false,
+  isLoadingMore: false,
+  isOffline: false,
+  error: null,
+  hasMore: true,
+  currentPage: 0,
+  nextCursor: null,
+};
+
+/**
+ * Merge a job into the one we already hold. Feed entries can come without the
+ * details fetched for the job screen, so those are kept until fresh ones arrive.
+ */
+const mergeJob = (existing: Job | undefined, incoming: Job): Job => {
+  if (!existing || incoming.description || !existing.description) return incoming;
+
+  return {
+    ...incoming,
+    description: existing.description,
+    requirements: existing.requirements,
+    benefits: existing.benefits,
+  };
+};
+
+const indexJobs = (jobsById: Record<string, Job>, jobs: Job[]): Record<string, Job> => {
+  if (jobs.length === 0) return jobsById;
+
+  const updated = { ...jobsById };
+  jobs.forEach(job => {
+    updated[job.id] = mergeJob(updated[job.id], job);
+  });
+  return updated;
+};
+
+/**
+ * Apply an action to the job state. Unchanged slices keep their identity so
+ * selectors only wake the screens whose data actually changed.
+ */
+export const jobsReducer = (state: JobsState, action: JobsAction): JobsState => {
+  switch (action.type) {
+    case 'feedLoaded':
+      return {
+        ...state,
+        jobs: action.jobs,
+        jobsById: indexJobs(state.jobsById, action.jobs),
+        currentPage: action.page,
+        nextCursor: action.nextCursor,
+        hasMore: action.hasMore,
+      };
+
+    case 'feedExtended': {
+      // Skip jobs we already have in case pages shifted since the last fetch
+      const knownIds = new Set(state.jobs.map(job => job.id));
+      const newJobs = action.jobs.filter(job => !knownIds.has(job.id));
+
+      return {
+        ...state,
+        jobs: newJobs.length > 0 ? [...state.jobs, ...newJobs] : state.jobs,
+        jobsById: indexJobs(state.jobsById, newJobs),
+        currentPage: action.page,
+        nextCursor: action.nextCursor,
+        hasMore: action.hasMore,
+      };
+    }
+
+    case 'jobsSynced': {
+      if (action.upserted.length === 0 && action.removedIds.length === 0) return state;
+
+      const jobsById = indexJobs(state.jobsById, action.upserted);
+      if (action.removedIds.length > 0) {
+        const removed = new Set(action.removedIds);
+        const remaining = Object.keys(jobsById).filter(id => !removed.has(id));
+        return {
+          ...state,
+          jobs: state.jobs.filter(job => !removed.has(job.id)),
+          jobsById: Object.fromEntries(remaining.map(id => [id, jobsById[id]])),
+        };
+      }
+      return { ...state, jobsById };
+    }
+
+    case 'jobLoaded': {
+      const job = mergeJob(state.jobsById[action.job.id], action.job);
+      if (job === state.jobsById[job.id]) return state;
+
+      return {
+        ...state,
+        jobs: state.jobs.map(existing => (existing.id === job.id ? job : existing)),
+        jobsById: { ...state.jobsById, [job.id]: job },
+      };
+    }
+
+    case 'categoriesLoaded':
+      return { ...state, categories: action.categories };
+
+    case 'savedJobsChanged':
+      return { ...state, savedJobs: action.savedJobs };
+
+    case 'statusChanged': {
+      const keys = Object.keys(action.status) as (keyof JobsStatus)[];
+      if (keys.every(key => state[key] === action.status[key])) return state;
+      return { ...state, ...action.status };
+    }
+
+    case 'reset':
+      return { ...initialJobsState, categories: state.categories, savedJobs: state.savedJobs, isOffline: state.isOffline };
+
+    default:
+      return state;
+  }
+};
+
+// Store
+let state = initialJobsState;
+const listeners = new Set<JobsListener>();
+
+// In-flight work shared by every caller, so the same request is never sent twice at once
+let refreshInFlight: Promise<void> | null = null;
+let loadMoreInFlight: Promise<void> | null = null;
+// Bumped whenever the feed restarts, so a page requested for the previous feed is dropped
+let feedVersion = 0;
+
+interface PendingJobFetch {
+  promise: Promise<Job>;
+  controller: AbortController;
+  // Callers still waiting; the request is cancelled once all of them have given up
+  waiters: number;
+}
+
+const pendingJobFetches = new Map<string, PendingJobFetch>();
+
+const dispatch = (action: JobsAction) => {
+  const next = jobsReducer(state, action);
+  if (next === state) return;
+
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const setStatus = (status: Partial<JobsStatus>) => dispatch({ type: 'statusChanged', status });
+
+/**
+ * Get the current job state
+ */
+export const getJobsState = (): JobsState => state;
+
+/**
+ * Listen for changes to the job state
+ * @returns A function that removes the listener
+ */
+export const subscribeToJobs = (listener: JobsListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Keep the offline flag in step with the device's connection
+ * @returns A function that stops listening
+ */
+export const startNetworkMonitoring = (): (() => void) => {
+  NetInfo.fetch().then(network => setStatus({ isOffline: !network.isConnected }));
+  return NetInfo.addEventListener(network => setStatus({ isOffline: !network.isConnected }));
+};
+
+/**
+ * Load bookmarked jobs from the local database
+ */
+export const loadSavedJobs = async (): Promise<void> => {
+  try {
+    dispatch({ type: 'savedJobsChanged', savedJobs: await Database.getSavedJobs() });
+  } catch (error) {
+    console.error('Error loading saved jobs:', error);
+  }
+};
+
+/**
+ * Sync with the backend and restart the feed from the fresh data
+ */
+const runRefresh = async (): Promise<void> => {
+  try {
+    const network = await NetInfo.fetch();
+    if (!network.isConnected) {
+      setStatus({ isOffline: true, error: 'No internet connection. Using cached data.' });
+      return;
+    }
+
+    setStatus({ isOffline: false });
+
+    // Sync with the backend (delta when we have a previous sync, full otherwise)
+    const syncResult = await syncJobs();
+
+    // Check saved searches for new matches in the background
+    evaluateSavedSearches(syncResult.upserted);
+
+    feedVersion++;
+    dispatch({ type: 'jobsSynced', upserted: syncResult.upserted, removedIds: syncResult.removedIds });
+
+    if (syncResult.firstPage) {
+      const { jobs, nextCursor, hasMore } = syncResult.firstPage;
+      dispatch({ type: 'feedLoaded', jobs, page: 1, nextCursor, hasMore });
+    } else {
+      // The local database is now up to date, so restart the feed from it
+      const jobs = await Database.getJobs({ limit: JOBS_PAGE_SIZE, offset: 0 });
+      dispatch({ type: 'feedLoaded', jobs, page: 1, nextCursor: null, hasMore: jobs.length === JOBS_PAGE_SIZE });
+    }
+
+    setStatus({ error: null });
+  } catch (error) {
+    console.error('Error refreshing data from API:', error);
+
+    // Only show an error if there are no jobs to display
+    if (state.jobs.length === 0) {
+      setStatus({ error: 'Failed to load data. Please check your connection and try again.' });
+    }
+  }
+};
+
+const refreshFromApi = (showRefreshIndicator = false): Promise<void> => {
+  if (showRefreshIndicator) {
+    setStatus({ isRefreshing: true });
+  }
+
+  if (!refreshInFlight) {
+    refreshInFlight = runRefresh().finally(() => {
+      refreshInFlight = null;
+      setStatus({ isRefreshing: false, isLoading: false });
+    });
+  }
+
+  return refreshInFlight;
+};
+
+/**
+ * Show cached jobs straight away, then refresh from the API when they are missing or stale
+ */
+export const loadInitialJobs = async (): Promise<void> => {
+  setStatus({ isLoading: true, error: null });
+  dispatch({ type: 'categoriesLoaded', categories: getCategories() });
+
+  try {
+    console.log('Loading initial data from local database...');
+    const localJobs = await Database.getJobs({ limit: JOBS_PAGE_SIZE, offset: 0 });
+
+    if (localJobs.length > 0) {
+      console.log(`Loaded ${localJobs.length} jobs from local database`);
+      feedVersion++;
+      dispatch({
+        type: 'feedLoaded',
+        jobs: localJobs,
+        page: 1,
+        nextCursor: null,
+        hasMore: localJobs.length === JOBS_PAGE_SIZE,
+      });
+    }
+
+    // Check if data is older than the user's sync interval and should be refreshed
+    const { intervalMinutes } = await getBackgroundSyncSettings();
+    const isStale = await Database.isDataStale(intervalMinutes * 60 * 1000);
+
+    if (localJobs.length === 0 || isStale) {
+      console.log('Local job data is missing or stale, refreshing from API...');
+      // Don't wait, so the UI can show the cached data first
+      refreshFromApi();
+    } else {
+      setStatus({ isLoading: false });
+    }
+  } catch (error) {
+    console.error('Error loading data from local database:', error);
+    await refreshFromApi();
+  }
+};
+
+/**
+ * Refresh jobs from the API, showing the pull-to-refresh indicator
+ */
+export const refreshJobs = (): Promise<void> => refreshFromApi(true);
+
+/**
+ * Refresh jobs if the device is online, otherwise explain why not
+ */
+export const checkNetworkAndRefresh = async (): Promise<void> => {
+  const network = await NetInfo.fetch();
+  if (!network.isConnected) {
+    setStatus({ isOffline: true, error: 'No internet connection. Please connect to a network and try again.' });
+    return;
+  }
+
+  setStatus({ isOffline: false });
+  await refreshJobs();
+};
+
+/**
+ * Forget every job held in memory, e.g. after the local cache was cleared
+ */
+export const resetJobs = () => {
+  feedVersion++;
+  dispatch({ type: 'reset' });
+};
+
+const runLoadMore = async (): Promise<void> => {
+  const version = feedVersion;
+  setStatus({ isLoadingMore: true });
+
+  try {
+    const network = await NetInfo.fetch();
+    let page: FeedPage;
+
+    if (network.isConnected) {
+      const response = await fetchJobs({
+        page: state.currentPage + 1,
+        limit: JOBS_PAGE_SIZE,
+        cursor: state.nextCursor,
+      });
+
+      // Save the page so it can still be scrolled through offline
+      await Database.saveJobs(response.jobs);
+      page = { jobs: response.jobs, page: response.page, nextCursor: response.nextCursor, hasMore: response.hasMore };
+    } else {
+      const offset = state.jobs.length;
+      const jobs = await Database.getJobs({ limit: JOBS_PAGE_SIZE, offset });
+      page = {
+        jobs,
+        page: Math.floor((offset + jobs.length) / JOBS_PAGE_SIZE),
+        nextCursor: state.nextCursor,
+        hasMore: jobs.length === JOBS_PAGE_SIZE,
+      };
+    }
+
+    if (version !== feedVersion) {
+      console.log('Feed was refreshed while loading more jobs, dropping the stale page');
+      return;
+    }
+
+    dispatch({ type: 'feedExtended', ...page });
+  } catch (error) {
+    console.error('Error loading more jobs:', error);
+  } finally {
+    setStatus({ isLoadingMore: false });
+  }
+};
+
+/**
+ * Load the next page of jobs - from the API when online, otherwise from pages cached in SQLite
+ */
+export const loadMoreJobs = (): Promise<void> => {
+  if (loadMoreInFlight) return loadMoreInFlight;
+  if (state.isLoading || refreshInFlight || !state.hasMore) return Promise.resolve();
+
+  loadMoreInFlight = runLoadMore().finally(() => {
+    loadMoreInFlight = null;
+  });
+  return loadMoreInFlight;
+};
+
+/**
+ * Wait for a shared fetch. Each caller can stop waiting on its own, and the
+ * request itself is only cancelled once nobody is waiting for it any more.
+ */
+const waitForJobFetch = (id: string, pending: PendingJobFetch, signal?: AbortSignal): Promise<Job> => {
+  pending.waiters++;
+  if (!signal) return pending.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      pending.waiters--;
+      if (pending.waiters === 0) {
+        pending.controller.abort();
+        if (pendingJobFetches.get(id) === pending) pendingJobFetches.delete(id);
+      }
+      reject(createAbortError());
+    };
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort);
+    pending.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const fetchJobOnce = (id: string, signal?: AbortSignal): Promise<Job> => {
+  // The caller may have gone away while the cache and network checks ran
+  if (signal?.aborted) return Promise.reject(createAbortError());
+
+  let pending = pendingJobFetches.get(id);
+
+  if (pending) {
+    console.log(`Using pending fetch for job ID: ${id}`);
+  } else {
+    console.log(`Fetching job details for ID: ${id} from API`);
+    const controller = new AbortController();
+    const promise = fetchJobById(id, controller.signal)
+      .then(job => {
+        dispatch({ type: 'jobLoaded', job });
+        Database.saveJobs([job]).catch(error => {
+          console.error(`Error saving fetched job ${id} to database:`, error);
+        });
+        return job;
+      })
+      .finally(() => {
+        if (pendingJobFetches.get(id) === current) pendingJobFetches.delete(id);
+      });
+
+    // Waiters handle the outcome; this keeps a fetch cancelled after every waiter left from going unhandled
+    promise.catch(() => {});
+
+    const current: PendingJobFetch = { promise, controller, waiters: 0 };
+    pending = current;
+    pendingJobFetches.set(id, current);
+  }
+
+  return waitForJobFetch(id, pending, signal);
+};
+
+/**
+ * Get a job with its full details, from memory, the local database or the API.
+ * Concurrent requests for the same job share one API call.
+ * @throws NetworkError when offline with nothing cached, or the API error
+ */
+export const getJobById = async (id: string, signal?: AbortSignal): Promise<Job | undefined> => {
+  const cached = state.jobsById[id];
+  if (cached?.description) {
+    console.log(`Using cached job data for ID: ${id}`);
+    return cached;
+  }
+
+  try {
+    const localJob = await Database.getJobById(id);
+    if (localJob?.description) {
+      console.log(`Retrieved job ${id} from local database`);
+      dispatch({ type: 'jobLoaded', job: localJob });
+      return state.jobsById[id];
+    }
+  } catch (dbError) {
+    console.error(`Error retrieving job ${id} from local database:`, dbError);
+  }
+
+  const network = await NetInfo.fetch();
+  if (!network.isConnected) {
+    setStatus({ isOffline: true });
+    // Fall back to the basic info from the feed if we have it
+    if (state.jobsById[id]) return state.jobsById[id];
+    throw new NetworkError();
+  }
+
+  setStatus({ isOffline: false });
+
+  try {
+    return await fetchJobOnce(id, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`Error fetching job by ID ${id}:`, error);
+
+    // Still return the basic job if we have it, even though the details are missing
+    if (state.jobsById[id]) return state.jobsById[id];
+    throw error;
+  }
+};
+
+/**
+ * Check if a job is bookmarked
+ */
+export const isJobSaved = (id: string, savedJobs = state.savedJobs): boolean =>
+  savedJobs.some(saved => saved.job.id === id);
+
+/**
+ * Bookmark or un-bookmark a job
+ */
+export const toggleSavedJob = async (job: Job): Promise<void> => {
+  try {
+    if (isJobSaved(job.id)) {
+      await Database.removeSavedJob(job.id);
+      dispatch({ type: 'savedJobsChanged', savedJobs: state.savedJobs.filter(saved => saved.job.id !== job.id) });
+    } else {
+      const saved = await Database.addSavedJob(job);
+      dispatch({
+        type: 'savedJobsChanged',
+        savedJobs: [saved, ...state.savedJobs.filter(existing => existing.job.id !== job.id)],
+      });
+    }
+  } catch (error) {
+    console.error('Error toggling saved job:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,58 @@
+import * as Location from 'expo-location';
+import { getLocationsToGeocode, saveGeocode } from './database';
+import { Coordinates } from './jobSort';
+
+// Maximum number of places geocoded per run, to stay within the platform geocoder's rate limits
+const GEOCODE_BATCH_SIZE = 25;
+
+/**
+ * Get the user's current position, asking for permission if needed
+ * @returns The position, or null if permission was denied or no fix is available
+ */
+export const getCurrentCoordinates = async (): Promise<Coordinates | null> => {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      console.log('Location permission not granted');
+      return null;
+    }
+
+    // A recent cached fix is accurate enough for sorting and avoids waiting on GPS
+    const position =
+      (await Location.getLastKnownPositionAsync({ maxAge: 10 * 60 * 1000 })) ||
+      (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+
+    return { latitude: position.coords.latitude, longitude: position.coords.longitude };
+  } catch (error) {
+    console.error('Error getting current location:', error);
+    return null;
+  }
+};
+
+/**
+ * Look up coordinates for cached job locations that don't have any yet
+ * @returns Number of locations that were geocoded
+ */
+export const geocodeJobLocations = async (): Promise<number> => {
+  const locations = await getLocationsToGeocode(GEOCODE_BATCH_SIZE);
+  let geocoded = 0;
+
+  for (const location of locations) {
+    // Remote jobs have no place to measure a distance to
+    if (/\b(remote|anywhere|worldwide)\b/i.test(location)) {
+      await saveGeocode(location, null);
+      continue;
+    }
+
+    try {
+      const [result] = await Location.geocodeAsync(location);
+      await saveGeocode(location, result ? { latitude: result.latitude, longitude: result.longitude } : null);
+      if (result) geocoded++;
+    } catch (error) {
+      // Leave the location uncached so it is retried next time
+      console.error(`Error geocoding "${location}":`, error);
+    }
+  }
+
+  return geocoded;
+};
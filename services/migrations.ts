@@ -0,0 +1,361 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { getFilterColumns } from './jobFilters';
+
+export interface Migration {
+  // Value stored in PRAGMA user_version once the migration has run
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Recompute the salary and workplace filter columns of every cached job
+ */
+const backfillFilterColumns = async (db: SQLiteDatabase): Promise<void> => {
+  const rows = await db.getAllAsync<{ id: string; salary: string | null; workplace: string | null; location: string }>(
+    'SELECT id, salary, workplace, location FROM jobs'
+  );
+
+  for (const row of rows) {
+    let salary = row.salary || '';
+    try {
+      salary = JSON.parse(salary);
+    } catch {
+      // Plain text salary
+    }
+
+    const columns = getFilterColumns({
+      salary,
+      workplace: row.workplace || undefined,
+      location: row.location,
+    });
+
+    await db.runAsync(
+      'UPDATE jobs SET salary_min_annual = ?, salary_max_annual = ?, workplace_type = ? WHERE id = ?',
+      [columns.salaryMinAnnual, columns.salaryMaxAnnual, columns.workplaceType, row.id]
+    );
+  }
+};
+
+/**
+ * Ordered list of schema migrations.
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'Initial schema',
+    up: async (db) => {
+      // IF NOT EXISTS keeps this safe for installs created before migrations existed
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          company TEXT NOT NULL,
+          location TEXT NOT NULL,
+          type TEXT NOT NULL,
+          category TEXT NOT NULL,
+          description TEXT NOT NULL,
+          requirements TEXT NOT NULL,
+          salary TEXT,
+          posted_date TEXT,
+          featured INTEGER DEFAULT 0,
+          created_at TEXT,
+          updated_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS job_tombstones (
+          id TEXT PRIMARY KEY,
+          reason TEXT NOT NULL,
+          removed_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          mode TEXT NOT NULL,
+          status TEXT NOT NULL,
+          started_at TEXT NOT NULL,
+          finished_at TEXT,
+          upserted INTEGER DEFAULT 0,
+          removed INTEGER DEFAULT 0,
+          error TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'Add company logo, workplace, benefits and structured requirements',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE jobs ADD COLUMN company_logo TEXT;
+        ALTER TABLE jobs ADD COLUMN workplace TEXT;
+        ALTER TABLE jobs ADD COLUMN benefits TEXT NOT NULL DEFAULT '[]';
+
+        UPDATE jobs SET requirements = CASE
+          WHEN json_valid(requirements) AND json_type(requirements) = 'array' THEN requirements
+          WHEN trim(requirements) = '' THEN '[]'
+          ELSE json_array(requirements)
+        END;
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'Add full-text search index for jobs',
+    up: async (db) => {
+      // Rows share their rowid with the jobs table; saveJobs keeps the two in sync
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS jobs_fts USING fts5(
+          title,
+          company,
+          location,
+          description,
+          requirements,
+          category,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        INSERT INTO jobs_fts (rowid, title, company, location, description, requirements, category)
+        SELECT
+          rowid,
+          title,
+          company,
+          location,
+          description,
+          (SELECT group_concat(value, ' ') FROM json_each(jobs.requirements)),
+          category
+        FROM jobs;
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'Add saved jobs',
+    up: async (db) => {
+      // Keeps a snapshot of the job so bookmarks survive cache clears and server removals
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS saved_jobs (
+          job_id TEXT PRIMARY KEY,
+          job_data TEXT NOT NULL,
+          saved_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'Add application outbox',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS application_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id TEXT NOT NULL,
+          job_title TEXT,
+          company TEXT,
+          email TEXT NOT NULL,
+          phone TEXT NOT NULL,
+          resume_uri TEXT NOT NULL,
+          resume_name TEXT NOT NULL,
+          resume_type TEXT,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          next_attempt_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_application_outbox_status ON application_outbox (status, next_attempt_at);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'Add application tracker',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS applications (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id TEXT NOT NULL,
+          remote_id TEXT,
+          job_title TEXT,
+          company TEXT,
+          status TEXT NOT NULL DEFAULT 'applied',
+          notes TEXT NOT NULL DEFAULT '',
+          applied_at TEXT NOT NULL,
+          status_updated_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_applications_job_id ON applications (job_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'Add salary and workplace filter columns',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE jobs ADD COLUMN salary_min_annual REAL;
+        ALTER TABLE jobs ADD COLUMN salary_max_annual REAL;
+        ALTER TABLE jobs ADD COLUMN workplace_type TEXT;
+      `);
+
+      // Salary text can't be parsed in SQL, so backfill existing rows from JS
+      await backfillFilterColumns(db);
+    },
+  },
+  {
+    version: 8,
+    name: 'Add job coordinates for distance sorting',
+    up: async (db) => {
+      // Geocoding results are cached per location string so each place is only looked up once
+      await db.execAsync(`
+        ALTER TABLE jobs ADD COLUMN latitude REAL;
+        ALTER TABLE jobs ADD COLUMN longitude REAL;
+
+        CREATE TABLE IF NOT EXISTS geocode_cache (
+          location TEXT PRIMARY KEY,
+          latitude REAL,
+          longitude REAL,
+          geocoded_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'Add saved searches',
+    up: async (db) => {
+      // saved_search_matches remembers which jobs a search has already reported
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS saved_searches (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          query TEXT NOT NULL DEFAULT '',
+          filters TEXT NOT NULL DEFAULT '{}',
+          muted INTEGER NOT NULL DEFAULT 0,
+          new_match_count INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          last_checked_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS saved_search_matches (
+          search_id INTEGER NOT NULL,
+          job_id TEXT NOT NULL,
+          matched_at TEXT NOT NULL,
+          PRIMARY KEY (search_id, job_id),
+          FOREIGN KEY (search_id) REFERENCES saved_searches (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'Convert annual salaries to the base currency',
+    up: async (db) => {
+      // Annual salaries used to be stored in each job's own currency
+      await backfillFilterColumns(db);
+    },
+  },
+  {
+    version: 11,
+    name: 'Add notification inbox',
+    up: async (db) => {
+      // Rows are keyed by the notification identifier so a notification seen twice is stored once
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS notification_inbox (
+          id TEXT PRIMARY KEY,
+          title TEXT,
+          body TEXT,
+          data TEXT NOT NULL DEFAULT '{}',
+          received_at TEXT NOT NULL,
+          read_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_notification_inbox_received_at ON notification_inbox (received_at DESC);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'Add idempotency keys to queued applications',
+    up: async (db) => {
+      // Lets the server recognise an application it already stored when the outbox sends it again
+      await db.execAsync(`
+        ALTER TABLE application_outbox ADD COLUMN idempotency_key TEXT;
+        UPDATE application_outbox SET idempotency_key = 'outbox-' || id WHERE idempotency_key IS NULL;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'Recompute annual salaries with the stricter salary parser',
+    up: async (db) => {
+      // Unrelated numbers in salary text (e.g. "2 years experience") used to be read as pay
+      await backfillFilterColumns(db);
+    },
+  },
+];
+
+/**
+ * Read the schema version stored in the database file
+ */
+export const getSchemaVersion = async (db: SQLiteDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+};
+
+/**
+ * Make sure migration versions are unique and strictly increasing
+ */
+const validateMigrations = (list: Migration[]): void => {
+  list.forEach((migration, index) => {
+    const previousVersion = index === 0 ? 0 : list[index - 1].version;
+    if (!Number.isInteger(migration.version) || migration.version <= previousVersion) {
+      throw new Error(`Invalid migration order at "${migration.name}" (version ${migration.version})`);
+    }
+  });
+};
+
+/**
+ * Run all pending migrations, each in its own transaction.
+ * If a migration fails its changes are rolled back and the error is rethrown,
+ * leaving the database at the last successfully applied version.
+ * @returns The schema version after migrating
+ */
+export const runMigrations = async (
+  db: SQLiteDatabase,
+  list: Migration[] = migrations
+): Promise<number> => {
+  validateMigrations(list);
+
+  const currentVersion = await getSchemaVersion(db);
+  const latestVersion = list.length > 0 ? list[list.length - 1].version : 0;
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${latestVersion})`
+    );
+  }
+
+  const pending = list.filter(migration => migration.version > currentVersion);
+
+  if (pending.length === 0) {
+    console.log(`Database schema version ${currentVersion} is current.`);
+    return currentVersion;
+  }
+
+  for (const migration of pending) {
+    console.log(`Running database migration ${migration.version}: ${migration.name}`);
+
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      // user_version is part of the database header, so it commits or rolls back with the migration
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+
+  console.log(`Database migrated from version ${currentVersion} to ${latestVersion}`);
+  return latestVersion;
+};
@@ -1,72 +1,27 @@
-import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
-import Constants from 'expo-constants';
 import { Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-const BACKEND_URL = 'https://jobs-site-mu.vercel.app'; // Update this with your actual backend URL
+import { getApiUrl } from './config';
+import { requestJson } from './http';
+import {
+  getNotificationPreferences,
+  getPendingPreferencesVersion,
+  getPreferenceTopics,
+  hasPendingPreferences,
+  markPreferencesSynced,
+  updateNotificationPreferences,
+} from './notificationPreferences';
+import { getRegisteredPushToken, syncPushToken, unregisterPushToken } from './pushTokens';
 
 /**
- * Register for push notifications and return the token
+ * Register for push notifications and return the token.
+ * Asks for permission if it hasn't been decided yet; failed registrations are retried by the token manager.
  */
 export async function registerForPushNotificationsAsync() {
-  let token;
-
-  // Check if physical device
-  if (Device.isDevice) {
-    // Check existing permissions
-    const { status: existingStatus } = await Notifications.getPermissionsAsync();
-    let finalStatus = existingStatus;
-
-    // If no existing permission, ask user for permission
-    if (existingStatus !== 'granted') {
-      const { status } = await Notifications.requestPermissionsAsync();
-      finalStatus = status;
-    }
-
-    // If permission not granted, return null
-    if (finalStatus !== 'granted') {
-      console.log('Failed to get push token for push notification!');
-      return null;
-    }
-
-    // Get push token
-    token = await Notifications.getExpoPushTokenAsync({
-      projectId: Constants.expoConfig?.extra?.eas?.projectId,
-    });
-
-    // Register token with backend
-    const storedToken = await AsyncStorage.getItem('pushToken');
-    
-    // Only register if token has changed or not stored before
-    if (token.data !== storedToken) {
-      try {
-        const response = await fetch(`${BACKEND_URL}/api/notifications/register`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            token: token.data,
-            device: Device.modelName || Platform.OS,
-          }),
-        });
+  const token = await syncPushToken({ prompt: true });
 
-        const result = await response.json();
-        
-        if (result.success) {
-          // Store token locally to avoid unnecessary registrations
-          await AsyncStorage.setItem('pushToken', token.data);
-          console.log('Push token successfully registered with backend');
-        } else {
-          console.error('Failed to register push token with backend:', result.message);
-        }
-      } catch (error) {
-        console.error('Error registering push token with backend:', error);
-      }
-    }
-  } else {
-    console.log('Must use physical device for push notifications');
+  // Preferences changed while the backend couldn't be reached
+  if (token && await hasPendingPreferences()) {
+    await syncNotificationPreferences();
   }
 
   // Set notification handler for iOS
@@ -82,33 +37,58 @@ export async function registerForPushNotificationsAsync() {
     ]);
   }
 
-  return token?.data;
+  return token;
 }
 
 /**
- * Handle received notification
+ * Send the notification preferences to the backend as topic subscriptions.
+ * Without a registered token they are sent later, when the device registers.
+ * @returns Whether the backend has the latest preferences
  */
-export function handleNotification(notification: Notifications.Notification) {
-  // You can add custom handling logic here
-  console.log('Notification received:', notification);
-  return notification;
+export async function syncNotificationPreferences(): Promise<boolean> {
+  const token = await getRegisteredPushToken();
+  if (!token) return false;
+
+  try {
+    const version = await getPendingPreferencesVersion();
+    const preferences = await getNotificationPreferences();
+    await requestJson(`${getApiUrl()}/notifications/preferences`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        token,
+        topics: getPreferenceTopics(preferences),
+        maxFrequency: preferences.maxFrequency,
+      }),
+      // Replacing the subscriptions is idempotent, so failed attempts can be retried
+      retries: 2,
+    });
+
+    await markPreferencesSynced(version);
+    return !(await hasPendingPreferences());
+  } catch (error) {
+    console.error('Error syncing notification preferences:', error);
+    return false;
+  }
 }
 
 /**
- * Handle notification response (when user taps notification)
+ * Turn push notifications off: unregister the token with the backend and forget it
+ * @throws When the backend can't be reached, so the user can try again
  */
-export function handleNotificationResponse(response: Notifications.NotificationResponse) {
-  const data = response.notification.request.content.data;
-  
-  // Handle navigation based on notification data
-  if (data && typeof data === 'object' && 'jobId' in data) {
-    // Here you would typically navigate to the job details
-    // This will be used by the app component that sets up notification handling
-    return {
-      type: 'job',
-      id: data.jobId
-    };
+export async function unregisterPushNotificationsAsync(): Promise<void> {
+  // Turn notifications off first, so a registration started meanwhile (e.g. when the app
+  // comes back to the foreground) doesn't register the token again
+  await updateNotificationPreferences({ enabled: false });
+
+  try {
+    await unregisterPushToken();
+  } catch (error) {
+    console.error('Error unregistering push notifications:', error);
+    // The backend still has the token, so notifications are still on
+    await updateNotificationPreferences({ enabled: true }).catch(() => {});
+    throw error;
   }
-  
-  return null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,229 @@
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { openDatabase } from './database';
+
+// Oldest notifications are dropped once the inbox grows past this
+const MAX_INBOX_SIZE = 200;
+
+export interface InboxNotification {
+  id: string;
+  title: string | null;
+  body: string | null;
+  // Payload sent with the notification, used to open the screen it refers to
+  data: Record<string, unknown>;
+  receivedAt: string;
+  readAt: string | null;
+}
+
+interface InboxRow {
+  id: string;
+  title: string | null;
+  body: string | null;
+  data: string;
+  received_at: string;
+  read_at: string | null;
+}
+
+type InboxListener = () => void;
+
+const listeners = new Set<InboxListener>();
+
+const parseData = (data: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const mapInboxRow = (row: InboxRow): InboxNotification => ({
+  id: row.id,
+  title: row.title,
+  body: row.body,
+  data: parseData(row.data),
+  receivedAt: row.received_at,
+  readAt: row.read_at,
+});
+
+/**
+ * Get the number of unread notifications in the inbox
+ */
+export const getUnreadInboxCount = async (): Promise<number> => {
+  try {
+    const db = await openDatabase();
+    const result = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM notification_inbox WHERE read_at IS NULL'
+    );
+    return result?.count ?? 0;
+  } catch (error) {
+    console.error('Error counting unread notifications:', error);
+    throw error;
+  }
+};
+
+/**
+ * Set the app icon badge to the number of unread notifications
+ */
+const syncBadgeCount = async (): Promise<void> => {
+  try {
+    await Notifications.setBadgeCountAsync(await getUnreadInboxCount());
+  } catch (error) {
+    console.error('Error updating the app badge:', error);
+  }
+};
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+  syncBadgeCount();
+};
+
+/**
+ * Subscribe to changes in the inbox
+ * @returns Function that removes the listener
+ */
+export const subscribeToInbox = (listener: InboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Store received notifications in the inbox. Notifications already there are left as they are.
+ * @param read - Store them as already read, e.g. when the user opened them from the tray
+ */
+export const addToInbox = async (notifications: Notifications.Notification[], read = false): Promise<void> => {
+  if (notifications.length === 0) return;
+
+  try {
+    const db = await openDatabase();
+    const now = new Date().toISOString();
+
+    await db.withTransactionAsync(async () => {
+      for (const { date, request } of notifications) {
+        const { title, body, data } = request.content;
+        await db.runAsync(
+          `INSERT INTO notification_inbox (id, title, body, data, received_at, read_at)
+           VALUES (?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET read_at = COALESCE(read_at, excluded.read_at)`,
+          [
+            request.identifier,
+            title,
+            body,
+            JSON.stringify(data ?? {}),
+            new Date(date || Date.now()).toISOString(),
+            read ? now : null,
+          ]
+        );
+      }
+
+      await db.runAsync(
+        `DELETE FROM notification_inbox WHERE id NOT IN (
+          SELECT id FROM notification_inbox ORDER BY received_at DESC LIMIT ?
+        )`,
+        [MAX_INBOX_SIZE]
+      );
+    });
+
+    notifyListeners();
+  } catch (error) {
+    console.error('Error saving notifications to the inbox:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all notifications in the inbox, newest first
+ */
+export const getInboxNotifications = async (): Promise<InboxNotification[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<InboxRow>('SELECT * FROM notification_inbox ORDER BY received_at DESC');
+    return rows.map(mapInboxRow);
+  } catch (error) {
+    console.error('Error getting inbox notifications:', error);
+    throw error;
+  }
+};
+
+/**
+ * Mark a notification as read and take it out of the notification tray
+ */
+export const markInboxNotificationRead = async (id: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync(
+      'UPDATE notification_inbox SET read_at = ? WHERE id = ? AND read_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    await Notifications.dismissNotificationAsync(id).catch(() => {});
+    notifyListeners();
+  } catch (error) {
+    console.error('Error marking notification as read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Mark every notification as read and clear the notification tray
+ */
+export const markAllInboxNotificationsRead = async (): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('UPDATE notification_inbox SET read_at = ? WHERE read_at IS NULL', [new Date().toISOString()]);
+    await Notifications.dismissAllNotificationsAsync().catch(() => {});
+    notifyListeners();
+  } catch (error) {
+    console.error('Error marking notifications as read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Remove a notification from the inbox and the notification tray
+ */
+export const removeInboxNotification = async (id: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('DELETE FROM notification_inbox WHERE id = ?', [id]);
+    await Notifications.dismissNotificationAsync(id).catch(() => {});
+    notifyListeners();
+  } catch (error) {
+    console.error('Error removing notification:', error);
+    throw error;
+  }
+};
+
+/**
+ * Pick up notifications that arrived while the app was in the background and are still in the tray
+ */
+const importPresentedNotifications = async (): Promise<void> => {
+  try {
+    await addToInbox(await Notifications.getPresentedNotificationsAsync());
+    await syncBadgeCount();
+  } catch {
+    // Already logged
+  }
+};
+
+/**
+ * Keep the inbox filled with notifications as they arrive, and whenever the app comes
+ * back to the foreground with new ones in the tray
+ * @returns Function that stops monitoring
+ */
+export const startInboxMonitoring = (): (() => void) => {
+  importPresentedNotifications();
+
+  const receivedSubscription = Notifications.addNotificationReceivedListener(notification => {
+    addToInbox([notification]).catch(() => {});
+  });
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') importPresentedNotifications();
+  });
+
+  return () => {
+    receivedSubscription.remove();
+    appStateSubscription.remove();
+  };
+};
@@ -0,0 +1,347 @@
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { NotificationPayload } from './deepLinks';
+
+// Constants
+export const BACKGROUND_NOTIFICATION_TASK = 'background-job-notification';
+const POLICY_SETTINGS_KEY = 'notification_policy';
+const HELD_NOTIFICATIONS_KEY = 'held_job_notifications';
+const DIGEST_NOTIFICATION_ID_KEY = 'digest_notification_id';
+
+// Held notifications are listed in their digest for a week after it is delivered
+const HELD_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Job titles shown in the digest notification itself; the rest are listed when it is opened
+const DIGEST_PREVIEW_COUNT = 3;
+
+// Tail of the queue of changes to the held alerts
+let heldUpdates: Promise<unknown> = Promise.resolve();
+
+export interface NotificationPolicySettings {
+  quietHoursEnabled: boolean;
+  // Minutes after local midnight. The range may wrap past midnight, e.g. 22:00 to 07:00.
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  // Group job alerts into one notification a day instead of sending them as they come
+  digestEnabled: boolean;
+  digestTime: number;
+}
+
+export const DEFAULT_NOTIFICATION_POLICY: NotificationPolicySettings = {
+  quietHoursEnabled: false,
+  quietHoursStart: 22 * 60,
+  quietHoursEnd: 7 * 60,
+  digestEnabled: false,
+  digestTime: 18 * 60,
+};
+
+/**
+ * A job alert about to be shown, from a push or a saved search
+ */
+export interface JobNotification {
+  title: string;
+  body: string;
+  data: NotificationPayload;
+}
+
+export interface HeldNotification extends JobNotification {
+  id: string;
+  receivedAt: number;
+  // When the digest containing this notification goes out
+  deliverAt: number;
+}
+
+/**
+ * Format minutes after midnight as a local time, e.g. "10:00 PM"
+ */
+export const formatTimeOfDay = (minutes: number): string => {
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+};
+
+/**
+ * Check if a moment falls within quiet hours
+ */
+export const isWithinQuietHours = (settings: NotificationPolicySettings, now = new Date()): boolean => {
+  if (!settings.quietHoursEnabled || settings.quietHoursStart === settings.quietHoursEnd) return false;
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+/**
+ * Get the next time the clock shows the given time of day, strictly after `from`
+ */
+export const getNextTimeOfDay = (minutes: number, from = new Date()): Date => {
+  const next = new Date(from);
+  next.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  if (next.getTime() <= from.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next;
+};
+
+/**
+ * Work out when a job alert arriving now may be shown
+ * @returns The delivery time, or null to show it right away
+ */
+export const getDeliveryTime = (settings: NotificationPolicySettings, now = new Date()): number | null => {
+  let deliverAt: Date | null = null;
+
+  if (settings.digestEnabled) {
+    deliverAt = getNextTimeOfDay(settings.digestTime, now);
+  } else if (isWithinQuietHours(settings, now)) {
+    deliverAt = getNextTimeOfDay(settings.quietHoursEnd, now);
+  }
+
+  // A digest due during quiet hours waits until they end
+  if (deliverAt && isWithinQuietHours(settings, deliverAt)) {
+    deliverAt = getNextTimeOfDay(settings.quietHoursEnd, deliverAt);
+  }
+
+  return deliverAt ? deliverAt.getTime() : null;
+};
+
+/**
+ * Load the quiet hours and digest settings
+ */
+export const getNotificationPolicySettings = async (): Promise<NotificationPolicySettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(POLICY_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_NOTIFICATION_POLICY, ...JSON.parse(stored) } : DEFAULT_NOTIFICATION_POLICY;
+  } catch (error) {
+    console.error('Error loading notification policy:', error);
+    return DEFAULT_NOTIFICATION_POLICY;
+  }
+};
+
+/**
+ * Load held notifications, dropping those whose digest went out long ago
+ */
+const getHeldNotifications = async (): Promise<HeldNotification[]> => {
+  const stored = await AsyncStorage.getItem(HELD_NOTIFICATIONS_KEY);
+  const held: HeldNotification[] = stored ? JSON.parse(stored) : [];
+  const cutoff = Date.now() - HELD_RETENTION_MS;
+  return held.filter(notification => notification.deliverAt >= cutoff);
+};
+
+/**
+ * Replace the scheduled digest with one for the alerts held until `deliverAt`.
+ * Only one digest is ever pending, since every held alert waits for the next delivery time.
+ */
+const scheduleDigest = async (
+  held: HeldNotification[],
+  deliverAt: number,
+  settings: NotificationPolicySettings
+): Promise<void> => {
+  const previousId = await AsyncStorage.getItem(DIGEST_NOTIFICATION_ID_KEY);
+  if (previousId) {
+    await Notifications.cancelScheduledNotificationAsync(previousId).catch(() => {});
+    await AsyncStorage.removeItem(DIGEST_NOTIFICATION_ID_KEY);
+  }
+
+  const batch = held.filter(notification => notification.deliverAt === deliverAt);
+  if (batch.length === 0) return;
+
+  const count = batch.length;
+  const preview = batch.slice(0, DIGEST_PREVIEW_COUNT).map(notification => notification.body).join('\n');
+  const more = count > DIGEST_PREVIEW_COUNT ? `\nand ${count - DIGEST_PREVIEW_COUNT} more` : '';
+
+  const id = await Notifications.scheduleNotificationAsync({
+    content: {
+      title: settings.digestEnabled
+        ? `${count} new ${count === 1 ? 'job' : 'jobs'} today`
+        : `${count} new ${count === 1 ? 'job' : 'jobs'} during quiet hours`,
+      body: preview + more,
+      data: { type: 'digest', deliverAt } satisfies NotificationPayload,
+    },
+    // Alerts released early, e.g. when quiet hours are turned off, go out right away
+    trigger: deliverAt > Date.now()
+      ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: deliverAt }
+      : null,
+  });
+  await AsyncStorage.setItem(DIGEST_NOTIFICATION_ID_KEY, id);
+};
+
+/**
+ * Run changes to the held alerts and their digest one at a time, so alerts arriving together aren't lost
+ */
+const updateHeldNotifications = <T>(update: () => Promise<T>): Promise<T> => {
+  const result = heldUpdates.then(update);
+  heldUpdates = result.catch(() => {});
+  return result;
+};
+
+const holdNotification = (
+  notification: JobNotification,
+  deliverAt: number,
+  settings: NotificationPolicySettings
+): Promise<void> => updateHeldNotifications(async () => {
+  const held = await getHeldNotifications();
+  held.push({
+    ...notification,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    receivedAt: Date.now(),
+    deliverAt,
+  });
+
+  await AsyncStorage.setItem(HELD_NOTIFICATIONS_KEY, JSON.stringify(held));
+  await scheduleDigest(held, deliverAt, settings);
+});
+
+/**
+ * Save changes to quiet hours and the digest, and move alerts already held to the new schedule
+ */
+export const updateNotificationPolicySettings = async (
+  changes: Partial<NotificationPolicySettings>
+): Promise<NotificationPolicySettings> => {
+  try {
+    const settings = { ...(await getNotificationPolicySettings()), ...changes };
+    await AsyncStorage.setItem(POLICY_SETTINGS_KEY, JSON.stringify(settings));
+
+    // Alerts still waiting go out on the new schedule, or right away when nothing holds them back
+    await updateHeldNotifications(async () => {
+      const now = Date.now();
+      const deliverAt = getDeliveryTime(settings) ?? now;
+      const held = (await getHeldNotifications()).map(notification =>
+        notification.deliverAt > now ? { ...notification, deliverAt } : notification
+      );
+      await AsyncStorage.setItem(HELD_NOTIFICATIONS_KEY, JSON.stringify(held));
+      await scheduleDigest(held, deliverAt, settings);
+    });
+
+    return settings;
+  } catch (error) {
+    console.error('Error saving notification policy:', error);
+    throw error;
+  }
+};
+
+/**
+ * Show a job alert now, or hold it for the digest when quiet hours or digest mode say so
+ * @returns Whether the alert was shown or held
+ */
+export const deliverJobNotification = async (notification: JobNotification): Promise<'shown' | 'held'> => {
+  try {
+    const settings = await getNotificationPolicySettings();
+    const deliverAt = getDeliveryTime(settings);
+
+    if (deliverAt !== null) {
+      await holdNotification(notification, deliverAt, settings);
+      return 'held';
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      content: { title: notification.title, body: notification.body, data: notification.data },
+      trigger: null,
+    });
+    return 'shown';
+  } catch (error) {
+    console.error('Error delivering job notification:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the alerts grouped into the digest delivered at the given time
+ */
+export const getDigestNotifications = async (deliverAt: number): Promise<HeldNotification[]> => {
+  try {
+    const held = await getHeldNotifications();
+    return held
+      .filter(notification => notification.deliverAt === deliverAt)
+      .sort((a, b) => b.receivedAt - a.receivedAt);
+  } catch (error) {
+    console.error('Error loading digest:', error);
+    throw error;
+  }
+};
+
+const isJobPayload = (data: unknown): data is NotificationPayload =>
+  !!data && typeof data === 'object' && ['new_job', 'saved_search'].includes((data as { type?: unknown }).type as string);
+
+/**
+ * Turn the data of a job push into the alert to show
+ */
+const toJobNotification = (title: string | null, body: string | null, data: NotificationPayload): JobNotification => {
+  const details = data as { jobTitle?: string; companyName?: string };
+  const summary = details.jobTitle
+    ? [details.jobTitle, details.companyName].filter(Boolean).join(' at ')
+    : '';
+  return { title: title || 'New job', body: body || summary || 'A new job matches your interests', data };
+};
+
+/**
+ * Decide how a notification that arrives while the app is open is presented.
+ * Job pushes are held back during quiet hours and in digest mode.
+ */
+export const getNotificationBehavior = async (
+  notification: Notifications.Notification
+): Promise<Notifications.NotificationBehavior> => {
+  const show = { shouldShowAlert: true, shouldPlaySound: true, shouldSetBadge: true };
+  const { content, trigger } = notification.request;
+
+  // Alerts the app schedules itself have already been through the policy
+  const isPush = !!trigger && 'type' in trigger && trigger.type === 'push';
+  if (!isPush || !isJobPayload(content.data)) return show;
+
+  try {
+    const settings = await getNotificationPolicySettings();
+    const deliverAt = getDeliveryTime(settings);
+    if (deliverAt === null) return show;
+
+    await holdNotification(toJobNotification(content.title, content.body, content.data), deliverAt, settings);
+    return { shouldShowAlert: false, shouldPlaySound: false, shouldSetBadge: false };
+  } catch (error) {
+    console.error('Error applying notification policy:', error);
+    return show;
+  }
+};
+
+/**
+ * Read the job data from a background push. Expo delivers the data as a JSON string
+ * in `body`, nested under `data` on Android.
+ */
+const readBackgroundPush = (taskData: unknown): { title: string | null; data: unknown } => {
+  const payload = (taskData as { data?: Record<string, unknown> })?.data ?? (taskData as Record<string, unknown>);
+  let data: unknown = payload?.body;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      data = null;
+    }
+  }
+  return { title: typeof payload?.title === 'string' ? payload.title : null, data };
+};
+
+// Data-only job pushes wake the app in the background, so they can be shown or held here.
+// Pushes with a visible alert are shown by the OS before the app can step in.
+TaskManager.defineTask(BACKGROUND_NOTIFICATION_TASK, async ({ data, error }) => {
+  if (error) {
+    console.error('Background notification task failed:', error);
+    return;
+  }
+
+  const push = readBackgroundPush(data);
+  if (!isJobPayload(push.data)) return;
+
+  try {
+    await deliverJobNotification(toJobNotification(push.title, null, push.data));
+  } catch {
+    // Already logged
+  }
+});
+
+/**
+ * Let data-only job pushes run the notification policy while the app is in the background
+ */
+export const registerNotificationPolicyTask = async (): Promise<void> => {
+  try {
+    await Notifications.registerTaskAsync(BACKGROUND_NOTIFICATION_TASK);
+  } catch (error) {
+    console.error('Error registering the background notification task:', error);
+  }
+};
@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Constants
+const PREFERENCES_KEY = 'notification_preferences';
+// Version of the latest preferences while the backend hasn't received them
+const PREFERENCES_PENDING_KEY = 'notification_preferences_pending';
+
+export type NotificationFrequency = 'instant' | 'daily' | 'weekly';
+
+export const NOTIFICATION_FREQUENCY_OPTIONS: { value: NotificationFrequency; label: string }[] = [
+  { value: 'instant', label: 'As they happen' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+export interface NotificationPreferences {
+  // False once the user has turned push notifications off and unregistered the device
+  enabled: boolean;
+  // Empty lists mean "any"
+  categories: string[];
+  types: string[];
+  locations: string[];
+  // Most often the backend may notify about new jobs
+  maxFrequency: NotificationFrequency;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: true,
+  categories: [],
+  types: [],
+  locations: [],
+  maxFrequency: 'instant',
+};
+
+const toTopicValue = (value: string): string =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Turn preferences into the topics the backend sends pushes for,
+ * e.g. "category:design" or "location:new-york-ny"
+ */
+export const getPreferenceTopics = ({ categories, types, locations }: NotificationPreferences): string[] => {
+  const topics = [
+    ...categories.map(category => `category:${toTopicValue(category)}`),
+    ...types.map(type => `type:${toTopicValue(type)}`),
+    ...locations.map(location => `location:${toTopicValue(location)}`),
+  ];
+
+  // Without any choices the user hears about every new job
+  return topics.length > 0 ? Array.from(new Set(topics)) : ['all'];
+};
+
+/**
+ * Load the notification preferences
+ */
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  try {
+    const stored = await AsyncStorage.getItem(PREFERENCES_KEY);
+    return stored ? { ...DEFAULT_NOTIFICATION_PREFERENCES, ...JSON.parse(stored) } : DEFAULT_NOTIFICATION_PREFERENCES;
+  } catch (error) {
+    console.error('Error loading notification preferences:', error);
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+/**
+ * Save changes to the notification preferences locally and flag them for syncing
+ */
+export const updateNotificationPreferences = async (
+  changes: Partial<NotificationPreferences>
+): Promise<NotificationPreferences> => {
+  try {
+    const preferences = { ...(await getNotificationPreferences()), ...changes };
+    await AsyncStorage.multiSet([
+      [PREFERENCES_KEY, JSON.stringify(preferences)],
+      // A new version on every change, so a sync that started earlier can't mark this one as sent
+      [PREFERENCES_PENDING_KEY, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`],
+    ]);
+    return preferences;
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the version of the preferences the backend is missing, if any.
+ * Read it before the preferences being sent, then pass it to `markPreferencesSynced`.
+ */
+export const getPendingPreferencesVersion = async (): Promise<string | null> => {
+  return AsyncStorage.getItem(PREFERENCES_PENDING_KEY);
+};
+
+/**
+ * Check if the backend is missing the latest preferences
+ */
+export const hasPendingPreferences = async (): Promise<boolean> => {
+  return (await getPendingPreferencesVersion()) !== null;
+};
+
+/**
+ * Record that the backend has the preferences of the given version.
+ * Preferences changed since then stay pending.
+ */
+export const markPreferencesSynced = async (version: string | null): Promise<void> => {
+  if (version === null) return;
+  if ((await getPendingPreferencesVersion()) === version) {
+    await AsyncStorage.removeItem(PREFERENCES_PENDING_KEY);
+  }
+};
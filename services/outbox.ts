@@ -0,0 +1,360 @@
+import NetInfo from '@react-native-community/netinfo';
+import { ApplicationPayload, submitApplication } from './api';
+import { ServerError, isRejectionError } from './errors';
+import { recordApplication } from './applications';
+import { openDatabase } from './database';
+import { deleteDocument, persistDocument } from './files';
+
+// Folder in the document directory that holds queued resumes
+const OUTBOX_FOLDER = 'outbox';
+
+// Give up after this many failed attempts
+const MAX_ATTEMPTS = 6;
+
+// Backoff between attempts: 30s, 1m, 2m, 4m... capped at 30 minutes
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxItem {
+  id: number;
+  jobId: string;
+  jobTitle: string | null;
+  company: string | null;
+  email: string;
+  phone: string;
+  resume: ApplicationPayload['resume'];
+  idempotencyKey: string;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface OutboxRow {
+  id: number;
+  job_id: string;
+  job_title: string | null;
+  company: string | null;
+  email: string;
+  phone: string;
+  resume_uri: string;
+  resume_name: string;
+  resume_type: string | null;
+  idempotency_key: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+type OutboxListener = () => void;
+
+const listeners = new Set<OutboxListener>();
+
+// Shared promise so only one processing run happens at a time
+let processingPromise: Promise<void> | null = null;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const mapOutboxRow = (row: OutboxRow): OutboxItem => ({
+  id: row.id,
+  jobId: row.job_id,
+  jobTitle: row.job_title,
+  company: row.company,
+  email: row.email,
+  phone: row.phone,
+  resume: {
+    uri: row.resume_uri,
+    name: row.resume_name,
+    mimeType: row.resume_type,
+  },
+  idempotencyKey: row.idempotency_key ?? `outbox-${row.id}`,
+  status: row.status,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  nextAttemptAt: row.next_attempt_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Get the delay before the given retry attempt
+ */
+const getRetryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY);
+};
+
+/**
+ * Subscribe to changes in the outbox
+ * @returns Function that removes the listener
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Queue an application to be sent when the device is back online
+ */
+export const enqueueApplication = async (
+  payload: ApplicationPayload,
+  job: { title?: string; company?: string }
+): Promise<OutboxItem> => {
+  try {
+    // The picked file lives in the cache directory, so keep our own copy until it is sent
+    const resume = await persistDocument(payload.resume, OUTBOX_FOLDER);
+    const now = new Date().toISOString();
+
+    const db = await openDatabase();
+    const result = await db.runAsync(
+      `INSERT INTO application_outbox
+        (job_id, job_title, company, email, phone, resume_uri, resume_name, resume_type, idempotency_key, status, attempts, next_attempt_at, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?)`,
+      [
+        payload.jobId,
+        job.title || null,
+        job.company || null,
+        payload.email,
+        payload.phone,
+        resume.uri,
+        resume.name,
+        resume.mimeType || null,
+        payload.idempotencyKey,
+        now,
+        now,
+        now
+      ]
+    );
+
+    const row = await db.getFirstAsync<OutboxRow>('SELECT * FROM application_outbox WHERE id = ?', [result.lastInsertRowId]);
+    console.log(`Queued application for job ${payload.jobId} in the outbox`);
+    notifyListeners();
+    return mapOutboxRow(row!);
+  } catch (error) {
+    console.error('Error queuing application:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all outbox items, newest first
+ */
+export const getOutboxItems = async (): Promise<OutboxItem[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<OutboxRow>('SELECT * FROM application_outbox ORDER BY created_at DESC');
+    return rows.map(mapOutboxRow);
+  } catch (error) {
+    console.error('Error getting outbox items:', error);
+    throw error;
+  }
+};
+
+/**
+ * Update the delivery state of an outbox item
+ */
+const updateOutboxItem = async (
+  id: number,
+  fields: { status: OutboxStatus; attempts?: number; lastError?: string | null; nextAttemptAt?: string }
+): Promise<void> => {
+  const db = await openDatabase();
+  await db.runAsync(
+    `UPDATE application_outbox
+     SET status = ?,
+         attempts = COALESCE(?, attempts),
+         last_error = ?,
+         next_attempt_at = COALESCE(?, next_attempt_at),
+         updated_at = ?
+     WHERE id = ?`,
+    [
+      fields.status,
+      fields.attempts ?? null,
+      fields.lastError ?? null,
+      fields.nextAttemptAt ?? null,
+      new Date().toISOString(),
+      id
+    ]
+  );
+  notifyListeners();
+};
+
+/**
+ * Try to send a single outbox item
+ */
+const sendOutboxItem = async (item: OutboxItem): Promise<void> => {
+  await updateOutboxItem(item.id, { status: 'sending', lastError: item.lastError });
+
+  try {
+    const receipt = await submitApplication({
+      jobId: item.jobId,
+      email: item.email,
+      phone: item.phone,
+      resume: item.resume,
+      idempotencyKey: item.idempotencyKey,
+    });
+
+    await updateOutboxItem(item.id, { status: 'sent', attempts: item.attempts + 1 });
+    await recordApplication({
+      jobId: item.jobId,
+      remoteId: receipt.applicationId,
+      jobTitle: item.jobTitle,
+      company: item.company,
+      appliedAt: receipt.submittedAt,
+    }).catch(() => {
+      // The application was delivered; a tracking failure must not mark it for retry
+    });
+    await deleteDocument(item.resume.uri);
+  } catch (error) {
+    const attempts = item.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    // The server rejected the application itself (e.g. validation, or the job was removed), so retrying can't help
+    if (isRejectionError(error) || attempts >= MAX_ATTEMPTS) {
+      await updateOutboxItem(item.id, { status: 'failed', attempts, lastError: message });
+    } else {
+      // Wait as long as the server asked, e.g. after 429 Too Many Requests
+      const retryAfter = error instanceof ServerError ? error.retryAfterMs : null;
+      await updateOutboxItem(item.id, {
+        status: 'pending',
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + (retryAfter ?? getRetryDelay(attempts))).toISOString(),
+      });
+    }
+  }
+};
+
+/**
+ * Schedule the next processing run for the earliest item that is waiting on its backoff
+ */
+const scheduleNextRetry = async (): Promise<void> => {
+  if (retryTimeout) {
+    clearTimeout(retryTimeout);
+    retryTimeout = null;
+  }
+
+  const db = await openDatabase();
+  const next = await db.getFirstAsync<{ next_attempt_at: string }>(
+    `SELECT next_attempt_at FROM application_outbox
+     WHERE status = 'pending'
+     ORDER BY next_attempt_at ASC
+     LIMIT 1`
+  );
+
+  if (!next) return;
+
+  const delay = Math.max(new Date(next.next_attempt_at).getTime() - Date.now(), 0);
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    processOutbox();
+  }, delay);
+};
+
+/**
+ * Send every pending application whose backoff has elapsed
+ */
+export const processOutbox = async (): Promise<void> => {
+  if (processingPromise) return processingPromise;
+
+  processingPromise = (async () => {
+    try {
+      const networkState = await NetInfo.fetch();
+      if (!networkState.isConnected) return;
+
+      const db = await openDatabase();
+
+      // Items left in 'sending' were interrupted (e.g. the app was closed). The server may already have them,
+      // but they are sent with the same idempotency key, so it won't store them twice.
+      await db.runAsync(`UPDATE application_outbox SET status = 'pending' WHERE status = 'sending'`);
+
+      const rows = await db.getAllAsync<OutboxRow>(
+        `SELECT * FROM application_outbox
+         WHERE status = 'pending' AND next_attempt_at <= ?
+         ORDER BY created_at ASC`,
+        [new Date().toISOString()]
+      );
+
+      for (const row of rows) {
+        await sendOutboxItem(mapOutboxRow(row));
+      }
+
+      await scheduleNextRetry();
+    } catch (error) {
+      console.error('Error processing outbox:', error);
+    } finally {
+      processingPromise = null;
+    }
+  })();
+
+  return processingPromise;
+};
+
+/**
+ * Put a failed item back in the queue and try to send it right away
+ */
+export const retryOutboxItem = async (id: number): Promise<void> => {
+  await updateOutboxItem(id, {
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: new Date().toISOString(),
+  });
+  await processOutbox();
+};
+
+/**
+ * Remove an item from the outbox along with its stored resume.
+ * Items being sent are left alone, since the upload still needs the resume.
+ * @returns Whether the item was removed
+ */
+export const removeOutboxItem = async (item: OutboxItem): Promise<boolean> => {
+  try {
+    const db = await openDatabase();
+    const result = await db.runAsync(
+      `DELETE FROM application_outbox WHERE id = ? AND status != 'sending'`,
+      [item.id]
+    );
+    if (result.changes === 0) return false;
+
+    await deleteDocument(item.resume.uri);
+    notifyListeners();
+    return true;
+  } catch (error) {
+    console.error('Error removing outbox item:', error);
+    throw error;
+  }
+};
+
+/**
+ * Send queued applications now and whenever connectivity returns
+ * @returns Function that stops listening for connectivity changes
+ */
+export const startOutboxSync = (): (() => void) => {
+  let wasConnected: boolean | null = null;
+
+  const unsubscribe = NetInfo.addEventListener(state => {
+    const isConnected = !!state.isConnected;
+    if (isConnected && wasConnected !== true) {
+      processOutbox();
+    }
+    wasConnected = isConnected;
+  });
+
+  return () => {
+    unsubscribe();
+    if (retryTimeout) {
+      clearTimeout(retryTimeout);
+      retryTimeout = null;
+    }
+  };
+};
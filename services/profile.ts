@@ -0,0 +1,108 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ResumeFile } from './api';
+import { deleteDocument, persistDocument } from './files';
+
+// Constants
+const PROFILE_KEY = 'candidate_profile';
+// Folder in the document directory that holds the default resume
+const PROFILE_FOLDER = 'profile';
+
+export interface ProfileLink {
+  label: string;
+  url: string;
+}
+
+export interface CandidateProfile {
+  name: string;
+  email: string;
+  phone: string;
+  links: ProfileLink[];
+  skills: string[];
+  // Copy of the resume kept in the app's documents so it outlives the picker cache
+  resume: ResumeFile | null;
+  updatedAt: string | null;
+}
+
+export const EMPTY_PROFILE: CandidateProfile = {
+  name: '',
+  email: '',
+  phone: '',
+  links: [],
+  skills: [],
+  resume: null,
+  updatedAt: null,
+};
+
+type ProfileListener = (profile: CandidateProfile) => void;
+
+const listeners = new Set<ProfileListener>();
+
+/**
+ * Subscribe to profile changes
+ * @returns Function that removes the listener
+ */
+export const subscribeToProfile = (listener: ProfileListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Load the saved candidate profile
+ * @returns The stored profile, or an empty one if nothing was saved yet
+ */
+export const getProfile = async (): Promise<CandidateProfile> => {
+  try {
+    const stored = await AsyncStorage.getItem(PROFILE_KEY);
+    if (!stored) return EMPTY_PROFILE;
+
+    // Merge with defaults so profiles saved by older versions still have every field
+    return { ...EMPTY_PROFILE, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading profile:', error);
+    return EMPTY_PROFILE;
+  }
+};
+
+/**
+ * Save changes to the candidate profile.
+ * A new resume is copied into the app's documents and the previous copy is removed.
+ * @returns The saved profile
+ */
+export const updateProfile = async (changes: Partial<CandidateProfile>): Promise<CandidateProfile> => {
+  try {
+    const current = await getProfile();
+    const next: CandidateProfile = { ...current, ...changes, updatedAt: new Date().toISOString() };
+
+    if (changes.resume !== undefined && changes.resume?.uri !== current.resume?.uri) {
+      next.resume = changes.resume ? await persistDocument(changes.resume, PROFILE_FOLDER) : null;
+      if (current.resume) {
+        await deleteDocument(current.resume.uri);
+      }
+    }
+
+    await AsyncStorage.setItem(PROFILE_KEY, JSON.stringify(next));
+    listeners.forEach(listener => listener(next));
+    return next;
+  } catch (error) {
+    console.error('Error saving profile:', error);
+    throw error;
+  }
+};
+
+/**
+ * Split a comma separated list of skills, dropping blanks and duplicates
+ */
+export const parseSkills = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(skill => skill.trim())
+    .filter(skill => {
+      const key = skill.toLowerCase();
+      if (!skill || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,377 @@
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import Constants from 'expo-constants';
+import { AppState, Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getApiUrl } from './config';
+import { NotFoundError } from './errors';
+import { requestJson } from './http';
+import {
+  getNotificationPreferences,
+  getPendingPreferencesVersion,
+  getPreferenceTopics,
+  markPreferencesSynced,
+} from './notificationPreferences';
+
+// The token last registered with the backend
+const PUSH_TOKEN_KEY = 'pushToken';
+// Replaced or revoked tokens the backend still has to forget, with the backend they were registered with
+const STALE_PUSH_TOKENS_KEY = 'stale_push_tokens';
+
+// Backoff between registration attempts: 30s, 1m, 2m, 4m... capped at 30 minutes
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+export type PushPermissionStatus = 'granted' | 'denied' | 'undetermined' | 'unavailable';
+
+export type PushRegistrationStatus = 'idle' | 'registering' | 'registered' | 'retrying' | 'disabled';
+
+export interface PushTokenState {
+  // 'unavailable' on simulators and emulators, which can't receive pushes
+  permission: PushPermissionStatus;
+  // False once the OS won't show the permission prompt again, so only system settings can grant it
+  canAskAgain: boolean;
+  status: PushRegistrationStatus;
+  // The token the backend has, if any
+  token: string | null;
+  lastError: string | null;
+  // When the next registration attempt runs while status is 'retrying'
+  nextRetryAt: number | null;
+}
+
+interface StalePushToken {
+  token: string;
+  apiUrl: string;
+}
+
+type PushTokenListener = () => void;
+
+const listeners = new Set<PushTokenListener>();
+
+let state: PushTokenState = {
+  permission: 'undetermined',
+  canAskAgain: true,
+  status: 'idle',
+  token: null,
+  lastError: null,
+  nextRetryAt: null,
+};
+
+let failedAttempts = 0;
+let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+// Shared promises so only one registration and one cleanup run at a time
+let syncPromise: Promise<string | null> | null = null;
+let unregisterStalePromise: Promise<void> | null = null;
+
+const setState = (changes: Partial<PushTokenState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Get the delay before the given retry attempt
+ */
+const getRetryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY);
+};
+
+const clearRetry = () => {
+  if (retryTimeout) {
+    clearTimeout(retryTimeout);
+    retryTimeout = null;
+  }
+};
+
+/**
+ * Get the current permission and registration state
+ */
+export const getPushTokenState = (): PushTokenState => state;
+
+/**
+ * Subscribe to changes in the permission and registration state
+ * @returns Function that removes the listener
+ */
+export const subscribeToPushToken = (listener: PushTokenListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Get the token last registered with the backend
+ */
+export const getRegisteredPushToken = async (): Promise<string | null> => {
+  return AsyncStorage.getItem(PUSH_TOKEN_KEY);
+};
+
+/**
+ * Read the notification permission, asking for it first if `prompt` is set and the OS still allows it
+ */
+const readPermission = async (prompt: boolean): Promise<PushPermissionStatus> => {
+  if (!Device.isDevice) {
+    setState({ permission: 'unavailable', canAskAgain: false });
+    return 'unavailable';
+  }
+
+  let permission = await Notifications.getPermissionsAsync();
+  if (prompt && permission.status !== 'granted' && permission.canAskAgain) {
+    permission = await Notifications.requestPermissionsAsync();
+  }
+
+  const status: PushPermissionStatus = permission.status === 'granted'
+    ? 'granted'
+    : permission.status === 'denied' ? 'denied' : 'undetermined';
+  setState({ permission: status, canAskAgain: permission.canAskAgain });
+  return status;
+};
+
+const loadStaleTokens = async (): Promise<StalePushToken[]> => {
+  const stored = await AsyncStorage.getItem(STALE_PUSH_TOKENS_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const getStaleKey = ({ token, apiUrl }: StalePushToken) => `${apiUrl} ${token}`;
+
+const runUnregisterStaleTokens = async (): Promise<void> => {
+  const removed = new Set<string>();
+  // A token registered again since it was retired must stay
+  const current: StalePushToken | null = state.token ? { token: state.token, apiUrl: getApiUrl() } : null;
+
+  for (const stale of await loadStaleTokens()) {
+    if (current && getStaleKey(stale) === getStaleKey(current)) {
+      removed.add(getStaleKey(stale));
+      continue;
+    }
+
+    try {
+      await requestJson(`${stale.apiUrl}/notifications/unregister`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: stale.token }),
+      });
+      removed.add(getStaleKey(stale));
+    } catch (error) {
+      // The backend has already forgotten it
+      if (error instanceof NotFoundError) {
+        removed.add(getStaleKey(stale));
+      } else {
+        console.error('Error unregistering a replaced push token:', error);
+      }
+    }
+  }
+
+  // Reload the list, since tokens may have been retired while the requests ran
+  const remaining = (await loadStaleTokens()).filter(stale => !removed.has(getStaleKey(stale)));
+  await AsyncStorage.setItem(STALE_PUSH_TOKENS_KEY, JSON.stringify(remaining));
+};
+
+/**
+ * Ask the backends to forget tokens that were replaced or revoked.
+ * Tokens that can't be removed yet are kept for the next attempt.
+ */
+const unregisterStaleTokens = (): Promise<void> => {
+  if (!unregisterStalePromise) {
+    unregisterStalePromise = runUnregisterStaleTokens().finally(() => {
+      unregisterStalePromise = null;
+    });
+  }
+  return unregisterStalePromise;
+};
+
+/**
+ * Forget the registered token locally and queue it to be removed from the backend
+ */
+const retireRegisteredToken = async (): Promise<void> => {
+  const token = await getRegisteredPushToken();
+  if (!token) return;
+
+  const stale = await loadStaleTokens();
+  await AsyncStorage.setItem(STALE_PUSH_TOKENS_KEY, JSON.stringify([...stale, { token, apiUrl: getApiUrl() }]));
+  await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+  setState({ token: null });
+};
+
+const registerToken = async (token: string): Promise<void> => {
+  const preferences = await getNotificationPreferences();
+
+  // Registering the same token twice is harmless, so failed attempts can be retried
+  const { data: result } = await requestJson<{ success?: boolean; message?: string } | null>(`${getApiUrl()}/notifications/register`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      token,
+      device: Device.modelName || Platform.OS,
+      topics: getPreferenceTopics(preferences),
+      maxFrequency: preferences.maxFrequency,
+    }),
+    retries: 2,
+  });
+
+  if (!result?.success) {
+    throw new Error(result?.message || 'The server did not accept the push token');
+  }
+};
+
+const scheduleRetry = (error: unknown) => {
+  failedAttempts += 1;
+  const delay = getRetryDelay(failedAttempts);
+
+  clearRetry();
+  retryTimeout = setTimeout(() => {
+    retryTimeout = null;
+    syncPushToken();
+  }, delay);
+
+  setState({
+    status: 'retrying',
+    lastError: error instanceof Error ? error.message : String(error),
+    nextRetryAt: Date.now() + delay,
+  });
+  console.log(`Push token registration failed, retrying in ${Math.round(delay / 1000)}s`);
+};
+
+const runSync = async (prompt: boolean): Promise<string | null> => {
+  clearRetry();
+
+  // Respect the user's choice to turn push notifications off
+  const preferences = await getNotificationPreferences();
+  if (!preferences.enabled) {
+    setState({ status: 'disabled', nextRetryAt: null, lastError: null });
+    return null;
+  }
+
+  const permission = await readPermission(prompt);
+  if (permission !== 'granted') {
+    // Permission was revoked in system settings, so the backend should stop sending to this device
+    await retireRegisteredToken();
+    unregisterStaleTokens().catch(() => {});
+    setState({ status: 'idle', nextRetryAt: null, lastError: null });
+    return null;
+  }
+
+  setState({ status: 'registering' });
+
+  try {
+    const { data: token } = await Notifications.getExpoPushTokenAsync({
+      projectId: Constants.expoConfig?.extra?.eas?.projectId,
+    });
+
+    const storedToken = await getRegisteredPushToken();
+    if (token !== storedToken) {
+      const preferencesVersion = await getPendingPreferencesVersion();
+      await registerToken(token);
+
+      // The new token is in place, so the one it replaced can go
+      await retireRegisteredToken();
+      await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+      await markPreferencesSynced(preferencesVersion);
+      console.log('Push token successfully registered with backend');
+    }
+
+    failedAttempts = 0;
+    setState({ status: 'registered', token, lastError: null, nextRetryAt: null });
+    unregisterStaleTokens().catch(() => {});
+    return token;
+  } catch (error) {
+    console.error('Error registering push token:', error);
+    scheduleRetry(error);
+    return null;
+  }
+};
+
+/**
+ * Make sure the backend has this device's current push token, retrying with backoff when it can't be reached
+ * @param prompt - Ask for notification permission if it hasn't been decided yet
+ * @returns The registered token, or null when there is none
+ */
+export const syncPushToken = ({ prompt = false }: { prompt?: boolean } = {}): Promise<string | null> => {
+  if (!syncPromise) {
+    syncPromise = runSync(prompt).finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+};
+
+/**
+ * Remove this device's token from the backend and stop retrying, e.g. when push notifications are turned off
+ * or the app switches to another backend
+ * @throws When the backend can't be reached, so the caller can try again
+ */
+export const unregisterPushToken = async (): Promise<void> => {
+  // Let a registration in flight finish first, so the token it stores is the one removed here
+  if (syncPromise) await syncPromise.catch(() => null);
+  clearRetry();
+  failedAttempts = 0;
+
+  const token = await getRegisteredPushToken();
+  if (token) {
+    try {
+      await requestJson(`${getApiUrl()}/notifications/unregister`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token }),
+        retries: 2,
+      });
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+    }
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+  }
+
+  setState({ status: 'disabled', token: null, lastError: null, nextRetryAt: null });
+};
+
+/**
+ * Drop this device's registration without turning notifications off, e.g. before the app switches
+ * to another backend. The token is removed from the old backend in the background.
+ */
+export const resetPushRegistration = async (): Promise<void> => {
+  clearRetry();
+  failedAttempts = 0;
+
+  await retireRegisteredToken();
+  unregisterStaleTokens().catch(() => {});
+  setState({ status: 'idle', lastError: null, nextRetryAt: null });
+};
+
+/**
+ * Keep the registration current: re-register when the OS rotates the token, check the permission
+ * whenever the app comes back to the foreground, and retry right away when the connection returns
+ * @returns Function that stops the manager
+ */
+export const startPushTokenManager = (): (() => void) => {
+  let wasConnected: boolean | null = null;
+
+  const tokenSubscription = Notifications.addPushTokenListener(() => {
+    console.log('Push token changed, registering the new one');
+    syncPushToken();
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', appState => {
+    if (appState === 'active') syncPushToken();
+  });
+
+  const unsubscribeNetInfo = NetInfo.addEventListener(netState => {
+    const isConnected = !!netState.isConnected;
+    if (isConnected && wasConnected === false && state.status === 'retrying') {
+      syncPushToken();
+    }
+    wasConnected = isConnected;
+  });
+
+  return () => {
+    tokenSubscription.remove();
+    appStateSubscription.remove();
+    unsubscribeNetInfo();
+    clearRetry();
+  };
+};
@@ -0,0 +1,293 @@
+import { Salary } from './api';
+import { EXCHANGE_RATES, EXCHANGE_RATES_BASE } from '../constants/ExchangeRates';
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+// Annual amounts in the exchange rates' base currency, so jobs in any currency compare directly
+export interface AnnualSalaryRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Upper bound of the salary filter sliders, in annual terms
+export const SALARY_FILTER_MAX = 300000;
+export const SALARY_FILTER_STEP = 5000;
+
+// Working units in a year, used to convert pay to an annual amount
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  hour: 2080,
+  day: 260,
+  week: 52,
+  month: 12,
+  year: 1,
+};
+
+const PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  hour: 'per hour',
+  day: 'per day',
+  week: 'per week',
+  month: 'per month',
+  year: 'per year',
+};
+
+// Symbols checked in order, so the prefixed dollar signs win over a bare "$"
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/\b(?:CA|C)\$/, 'CAD'],
+  [/\b(?:AU|A)\$/, 'AUD'],
+  [/\bNZ\$/, 'NZD'],
+  [/\bS\$/, 'SGD'],
+  [/\bR\$/, 'BRL'],
+  [/\$/, 'USD'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/₹/, 'INR'],
+  [/¥/, 'JPY'],
+  [/₩/, 'KRW'],
+  [/₱/, 'PHP'],
+  [/₦/, 'NGN'],
+];
+
+/**
+ * Map a currency code or symbol to a known ISO 4217 code
+ */
+export const normalizeCurrency = (currency?: string | null): string | null => {
+  if (!currency) return null;
+  const value = currency.trim();
+  if (EXCHANGE_RATES[value.toUpperCase()]) return value.toUpperCase();
+
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(value));
+  return symbol ? symbol[1] : null;
+};
+
+/**
+ * Convert an amount between currencies using the bundled rates
+ * @returns The converted amount, or null if either currency is unknown
+ */
+export const convertCurrency = (amount: number, from: string, to: string): number | null => {
+  const fromRate = EXCHANGE_RATES[from.toUpperCase()];
+  const toRate = EXCHANGE_RATES[to.toUpperCase()];
+  if (!fromRate || !toRate) return null;
+  return (amount / fromRate) * toRate;
+};
+
+/**
+ * Map the many ways a pay period is written to a known period
+ */
+export const normalizePeriod = (period?: string | null): SalaryPeriod | null => {
+  if (!period) return null;
+  const value = period.toLowerCase().trim();
+
+  if (/^(h|hr|hrs|hour|hourly|per hour)/.test(value)) return 'hour';
+  if (/^(d|day|daily|per day)/.test(value)) return 'day';
+  if (/^(w|wk|week|weekly|per week)/.test(value)) return 'week';
+  if (/^(m|mo|month|monthly|per month)/.test(value)) return 'month';
+  if (/^(y|yr|year|yearly|annual|annually|annum|pa|per year)/.test(value)) return 'year';
+  return null;
+};
+
+// Amounts with Indian (8,00,000), Western (50,000 / 50.000 / 50 000) or no digit grouping, and an optional k/m suffix
+const AMOUNT_PATTERN = /(\d{1,2}(?:,\d{2})+,\d{3}|\d{1,3}(?:[,.\s]\d{3})+|\d+(?:\.\d+)?)(?:\s*(k|m)\b)?/gi;
+
+const PERIOD_PATTERN = /(?:\/|\bper\b|\ba\b|\ban\b)\s*(hour|hr|day|week|wk|month|mo|year|yr|annum)|\b(hourly|daily|weekly|monthly|yearly|annually|annual|p\.a\.?|pa)(?=\W|$)/i;
+
+// Text between two amounts that makes them a range, e.g. "-", " – $" or " to "
+const RANGE_SEPARATOR_PATTERN = /^\s*(?:-|–|—|to)\s*(?:[A-Z]{0,2}[$€£₹¥₩₱₦]|[A-Z]{3}\s)?\s*$/i;
+
+const CURRENCY_BEFORE_PATTERN = /(?:[$€£₹¥₩₱₦]|\b([A-Z]{3}))\s*$/;
+const CURRENCY_AFTER_PATTERN = /^\s*(?:[$€£₹¥₩₱₦]|([A-Z]{3})\b)/;
+
+interface SalaryAmount {
+  value: number;
+  suffix?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Check if an amount sits right next to a currency symbol or a known currency code
+ */
+const hasAdjacentCurrency = (text: string, amount: SalaryAmount): boolean => {
+  return [
+    text.slice(0, amount.start).match(CURRENCY_BEFORE_PATTERN),
+    text.slice(amount.end).match(CURRENCY_AFTER_PATTERN),
+  ].some(match => !!match && (!match[1] || !!EXCHANGE_RATES[match[1]]));
+};
+
+const applySuffix = (value: number, suffix?: string): number => {
+  if (suffix === 'k') return value * 1000;
+  if (suffix === 'm') return value * 1000000;
+  return value;
+};
+
+/**
+ * Parse a free-text salary such as "$50k–70k/yr", "50,000-70,000 USD a year", "₹8,00,000 per annum" or "£25/hr".
+ * Only ranges and amounts next to a currency count, so other numbers in the text (e.g. "2 years experience") are ignored.
+ */
+export const parseSalaryText = (text: string): Salary | null => {
+  const amounts: SalaryAmount[] = [];
+  let match: RegExpExecArray | null;
+
+  AMOUNT_PATTERN.lastIndex = 0;
+  while ((match = AMOUNT_PATTERN.exec(text)) !== null) {
+    const value = parseFloat(match[1].replace(/[,\s]|\.(?=\d{3}\b)/g, ''));
+    if (!isNaN(value) && value > 0) {
+      amounts.push({ value, suffix: match[2]?.toLowerCase(), start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  let values: number[] | null = null;
+  for (let i = 0; i < amounts.length && !values; i++) {
+    const [amount, next] = [amounts[i], amounts[i + 1]];
+
+    if (next && RANGE_SEPARATOR_PATTERN.test(text.slice(amount.end, next.start))) {
+      // In ranges like "50-70k" the suffix on the upper bound applies to both
+      values = [applySuffix(amount.value, amount.suffix ?? next.suffix), applySuffix(next.value, next.suffix)];
+    } else if (hasAdjacentCurrency(text, amount)) {
+      values = [applySuffix(amount.value, amount.suffix)];
+    }
+  }
+
+  // A lone amount with nothing but a period or currency code around it, e.g. "60000 per year"
+  if (!values && amounts.length === 1) {
+    const [amount] = amounts;
+    const rest = (text.slice(0, amount.start) + text.slice(amount.end))
+      .replace(new RegExp(PERIOD_PATTERN, 'gi'), '')
+      .replace(/\b[A-Z]{3}\b/g, '');
+    if (!/[a-z]/i.test(rest)) values = [applySuffix(amount.value, amount.suffix)];
+  }
+
+  if (!values) return null;
+
+  const periodMatch = text.match(PERIOD_PATTERN);
+  const codeMatch = (text.match(/\b[A-Z]{3}\b/g) || []).find(code => EXCHANGE_RATES[code]);
+  const currency = codeMatch || normalizeCurrency(text);
+  const period = periodMatch ? (periodMatch[1] || periodMatch[2]).replace(/\./g, '') : null;
+
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+    period: normalizePeriod(period) || undefined,
+    currency: currency || undefined,
+  };
+};
+
+/**
+ * Turn a salary object or free-text string into a structured Salary with a known period and currency code
+ */
+export const normalizeSalary = (salary: Salary | string | null | undefined): Salary | null => {
+  if (!salary) return null;
+  if (typeof salary === 'string') return parseSalaryText(salary);
+  if (salary.min == null && salary.max == null) return null;
+
+  return {
+    ...salary,
+    period: normalizePeriod(salary.period) || salary.period,
+    currency: normalizeCurrency(salary.currency) || salary.currency,
+  };
+};
+
+/**
+ * Turn a salary object or string into an annual range in the base currency.
+ * Without an explicit period, small amounts are treated as hourly and mid-sized ones as monthly.
+ * Amounts in an unknown currency are left unconverted.
+ */
+export const getAnnualSalaryRange = (salary: Salary | string | null | undefined): AnnualSalaryRange | null => {
+  const parsed = normalizeSalary(salary);
+  if (!parsed) return null;
+
+  const reference = parsed.max ?? parsed.min ?? 0;
+  let period = normalizePeriod(parsed.period);
+  if (!period) {
+    if (reference < 500) period = 'hour';
+    else if (reference < 20000) period = 'month';
+    else period = 'year';
+  }
+
+  const multiplier = PERIODS_PER_YEAR[period];
+  const currency = normalizeCurrency(parsed.currency);
+  const toAnnual = (amount: number) => {
+    const annual = amount * multiplier;
+    const converted = currency ? convertCurrency(annual, currency, EXCHANGE_RATES_BASE) : null;
+    return Math.round(converted ?? annual);
+  };
+
+  return {
+    min: parsed.min != null ? toAnnual(parsed.min) : null,
+    max: parsed.max != null ? toAnnual(parsed.max) : null,
+  };
+};
+
+/**
+ * Check if a salary overlaps the requested annual range.
+ * Jobs without a usable salary never match an active salary filter.
+ */
+export const matchesSalaryRange = (
+  salary: Salary | string | null | undefined,
+  minSalary?: number,
+  maxSalary?: number
+): boolean => {
+  if (minSalary == null && maxSalary == null) return true;
+
+  const range = getAnnualSalaryRange(salary);
+  if (!range) return false;
+
+  const low = range.min ?? range.max!;
+  const high = range.max ?? range.min!;
+
+  if (minSalary != null && high < minSalary) return false;
+  if (maxSalary != null && low > maxSalary) return false;
+  return true;
+};
+
+/**
+ * Format an annual amount for filter labels, e.g. 85000 -> "$85k"
+ */
+export const formatAnnualAmount = (amount: number): string => {
+  if (amount >= 1000000) return `$${(amount / 1000000).toFixed(1).replace(/\.0$/, '')}M`;
+  if (amount >= 1000) return `$${Math.round(amount / 1000)}k`;
+  return `$${amount}`;
+};
+
+/**
+ * Format a salary for display in the user's locale, e.g. "$50,000 – $70,000 per year".
+ * Text that can't be parsed (such as "Competitive") is shown as written.
+ */
+export const formatSalary = (salary: Salary | string | null | undefined, locale?: string): string => {
+  if (!salary) return 'Not specified';
+
+  const parsed = normalizeSalary(salary);
+  if (!parsed) return typeof salary === 'string' ? salary : 'Competitive';
+
+  const currency = normalizeCurrency(parsed.currency) || EXCHANGE_RATES_BASE;
+  const period = normalizePeriod(parsed.period);
+  // Only hourly pay commonly has cents worth showing
+  const hasCents = period === 'hour' && [parsed.min, parsed.max].some(amount => amount != null && !Number.isInteger(amount));
+  const fractionDigits = hasCents ? 2 : 0;
+
+  const formatAmount = (amount: number) => {
+    try {
+      return new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+      }).format(amount);
+    } catch {
+      return `${currency} ${amount.toLocaleString(locale)}`;
+    }
+  };
+
+  let formatted: string;
+  if (parsed.min != null && parsed.max != null && parsed.min !== parsed.max) {
+    formatted = `${formatAmount(parsed.min)} – ${formatAmount(parsed.max)}`;
+  } else if (parsed.min != null && parsed.max != null) {
+    formatted = formatAmount(parsed.min);
+  } else if (parsed.min != null) {
+    formatted = `${formatAmount(parsed.min)}+`;
+  } else {
+    formatted = `Up to ${formatAmount(parsed.max!)}`;
+  }
+
+  if (period) return `${formatted} ${PERIOD_LABELS[period]}`;
+  return parsed.period ? `${formatted} ${parsed.period}` : formatted;
+};
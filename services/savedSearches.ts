@@ -0,0 +1,281 @@
+import { Job } from './api';
+import { openDatabase, searchJobs } from './database';
+import { JobFilters } from './jobFilters';
+import { deliverJobNotification } from './notificationPolicy';
+
+// Cap on jobs checked per saved search. Newest jobs are checked first so fresh matches always fit.
+const MATCH_LIMIT = 200;
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  filters: JobFilters;
+  muted: boolean;
+  // Matches found since the user last opened the search
+  newMatchCount: number;
+  createdAt: string;
+  lastCheckedAt: string | null;
+}
+
+interface SavedSearchRow {
+  id: number;
+  name: string;
+  query: string;
+  filters: string;
+  muted: number;
+  new_match_count: number;
+  created_at: string;
+  last_checked_at: string | null;
+}
+
+type SavedSearchesListener = () => void;
+
+const listeners = new Set<SavedSearchesListener>();
+
+const mapSavedSearchRow = (row: SavedSearchRow): SavedSearch => {
+  let filters: JobFilters = {};
+  try {
+    filters = JSON.parse(row.filters);
+  } catch {
+    // Keep an unreadable filter set from breaking the whole list
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters,
+    muted: row.muted === 1,
+    newMatchCount: row.new_match_count,
+    createdAt: row.created_at,
+    lastCheckedAt: row.last_checked_at,
+  };
+};
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribe to changes in saved searches
+ * @returns Function that removes the listener
+ */
+export const subscribeToSavedSearches = (listener: SavedSearchesListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Suggest a name for a search from its query
+ */
+export const getDefaultSearchName = (query: string): string => {
+  const trimmed = query.trim();
+  return trimmed ? `"${trimmed}"` : 'Filtered jobs';
+};
+
+/**
+ * Save a search. Jobs that already match are remembered so only later ones trigger alerts.
+ */
+export const createSavedSearch = async (name: string, query: string, filters: JobFilters): Promise<SavedSearch> => {
+  try {
+    const now = new Date().toISOString();
+    const currentMatches = await searchJobs(query, filters, { limit: MATCH_LIMIT, sort: 'newest' });
+
+    const db = await openDatabase();
+    let id = 0;
+
+    await db.withTransactionAsync(async () => {
+      const result = await db.runAsync(
+        `INSERT INTO saved_searches (name, query, filters, muted, new_match_count, created_at, last_checked_at)
+         VALUES (?, ?, ?, 0, 0, ?, ?)`,
+        [name.trim(), query.trim(), JSON.stringify(filters), now, now]
+      );
+      id = result.lastInsertRowId;
+
+      for (const job of currentMatches) {
+        await db.runAsync(
+          'INSERT OR IGNORE INTO saved_search_matches (search_id, job_id, matched_at) VALUES (?, ?, ?)',
+          [id, job.id, now]
+        );
+      }
+    });
+
+    const row = await db.getFirstAsync<SavedSearchRow>('SELECT * FROM saved_searches WHERE id = ?', [id]);
+    notifyListeners();
+    return mapSavedSearchRow(row!);
+  } catch (error) {
+    console.error('Error saving search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get all saved searches, newest first
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+  try {
+    const db = await openDatabase();
+    const rows = await db.getAllAsync<SavedSearchRow>('SELECT * FROM saved_searches ORDER BY created_at DESC');
+    return rows.map(mapSavedSearchRow);
+  } catch (error) {
+    console.error('Error getting saved searches:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get a single saved search
+ */
+export const getSavedSearchById = async (id: number): Promise<SavedSearch | null> => {
+  try {
+    const db = await openDatabase();
+    const row = await db.getFirstAsync<SavedSearchRow>('SELECT * FROM saved_searches WHERE id = ?', [id]);
+    return row ? mapSavedSearchRow(row) : null;
+  } catch (error) {
+    console.error('Error getting saved search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Rename a saved search
+ */
+export const renameSavedSearch = async (id: number, name: string): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('UPDATE saved_searches SET name = ? WHERE id = ?', [name.trim(), id]);
+    notifyListeners();
+  } catch (error) {
+    console.error('Error renaming saved search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Turn new-match alerts for a saved search on or off
+ */
+export const setSavedSearchMuted = async (id: number, muted: boolean): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('UPDATE saved_searches SET muted = ? WHERE id = ?', [muted ? 1 : 0, id]);
+    notifyListeners();
+  } catch (error) {
+    console.error('Error muting saved search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Clear the new-match badge once the user has looked at the results
+ */
+export const markSavedSearchSeen = async (id: number): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.runAsync('UPDATE saved_searches SET new_match_count = 0 WHERE id = ?', [id]);
+    notifyListeners();
+  } catch (error) {
+    console.error('Error updating saved search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a saved search and its match history
+ */
+export const deleteSavedSearch = async (id: number): Promise<void> => {
+  try {
+    const db = await openDatabase();
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM saved_search_matches WHERE search_id = ?', [id]);
+      await db.runAsync('DELETE FROM saved_searches WHERE id = ?', [id]);
+    });
+    notifyListeners();
+  } catch (error) {
+    console.error('Error deleting saved search:', error);
+    throw error;
+  }
+};
+
+/**
+ * Alert about new matches for a saved search, now or in the next digest
+ */
+const notifyNewMatches = async (search: SavedSearch, jobs: Job[]): Promise<void> => {
+  const [firstJob] = jobs;
+  const body = jobs.length === 1
+    ? `${firstJob.title} at ${firstJob.company}`
+    : `${jobs.length} new jobs, including ${firstJob.title} at ${firstJob.company}`;
+
+  await deliverJobNotification({
+    title: `New matches for ${search.name}`,
+    body,
+    data: {
+      type: 'saved_search',
+      savedSearchId: search.id,
+      // A single match opens the job directly
+      ...(jobs.length === 1 ? { jobId: firstJob.id } : {}),
+    },
+  });
+};
+
+/**
+ * Re-run every saved search against the local database and alert about jobs the last sync brought in
+ * that weren't matched before. Meant to run after each sync.
+ * @param syncedJobs - Jobs the sync just created or updated. Other jobs, e.g. older postings cached
+ * while paging through the feed, are recorded as matched without counting as new.
+ * @returns Total number of new matches found
+ */
+export const evaluateSavedSearches = async (syncedJobs: Job[]): Promise<number> => {
+  let totalNewMatches = 0;
+
+  try {
+    const searches = await getSavedSearches();
+    if (searches.length === 0) return 0;
+
+    const db = await openDatabase();
+    const syncedIds = new Set(syncedJobs.map(job => job.id));
+
+    for (const search of searches) {
+      const now = new Date().toISOString();
+      const matches = await searchJobs(search.query, search.filters, { limit: MATCH_LIMIT, sort: 'newest' });
+      const known = await db.getAllAsync<{ job_id: string }>(
+        'SELECT job_id FROM saved_search_matches WHERE search_id = ?',
+        [search.id]
+      );
+      const knownIds = new Set(known.map(row => row.job_id));
+      const unmatchedJobs = matches.filter(job => !knownIds.has(job.id));
+      const newJobs = unmatchedJobs.filter(job => syncedIds.has(job.id));
+
+      await db.withTransactionAsync(async () => {
+        for (const job of unmatchedJobs) {
+          await db.runAsync(
+            'INSERT OR IGNORE INTO saved_search_matches (search_id, job_id, matched_at) VALUES (?, ?, ?)',
+            [search.id, job.id, now]
+          );
+        }
+        await db.runAsync(
+          'UPDATE saved_searches SET new_match_count = new_match_count + ?, last_checked_at = ? WHERE id = ?',
+          [newJobs.length, now, search.id]
+        );
+      });
+
+      if (newJobs.length > 0 && !search.muted) {
+        try {
+          await notifyNewMatches(search, newJobs);
+        } catch (error) {
+          console.error('Error showing saved search notification:', error);
+        }
+      }
+
+      totalNewMatches += newJobs.length;
+    }
+
+    notifyListeners();
+  } catch (error) {
+    console.error('Error evaluating saved searches:', error);
+  }
+
+  return totalNewMatches;
+};
@@ -0,0 +1,79 @@
+import { fetchJobs, fetchJobChanges, Job, JobsPage, JobTombstone, JOBS_PAGE_SIZE } from './api';
+import * as Database from './database';
+
+// Safety limit on the number of delta pages fetched in one sync; the next sync resumes from there
+const MAX_DELTA_PAGES = 10;
+
+export interface SyncResult {
+  mode: Database.SyncMode;
+  upserted: Job[];
+  removedIds: string[];
+  // First page of the feed, only present for full syncs
+  firstPage?: JobsPage;
+}
+
+/**
+ * Sync the local job cache with the backend.
+ * Runs a delta sync from the last sync time when possible and a full first-page sync otherwise.
+ */
+export const syncJobs = async (): Promise<SyncResult> => {
+  const lastSync = await Database.getLastSyncTime();
+  const hasLocalJobs = (await Database.getJobCount()) > 0;
+  const mode: Database.SyncMode = lastSync && hasLocalJobs ? 'delta' : 'full';
+
+  const logId = await Database.startSyncLog(mode);
+  const startedAt = Date.now();
+
+  try {
+    let result: SyncResult;
+    let serverTime: number | null = null;
+    // Set when the delta sync stopped before the last page
+    let cursor: string | null = null;
+
+    if (mode === 'delta') {
+      const upserted: Job[] = [];
+      const tombstones: JobTombstone[] = [];
+      let pages = 0;
+
+      // Pick up where an earlier sync stopped, still relative to the same last sync time
+      cursor = await Database.getDeltaSyncCursor();
+
+      do {
+        const changes = await fetchJobChanges(lastSync!, cursor);
+        upserted.push(...changes.jobs);
+        tombstones.push(...changes.tombstones);
+        serverTime = changes.serverTime ?? serverTime;
+        cursor = changes.nextCursor;
+        pages++;
+      } while (cursor && pages < MAX_DELTA_PAGES);
+
+      await Database.applyJobChanges(upserted, tombstones);
+      result = { mode, upserted, removedIds: tombstones.map(tombstone => tombstone.id) };
+    } else {
+      const firstPage = await fetchJobs({ page: 1, limit: JOBS_PAGE_SIZE });
+      await Database.saveJobs(firstPage.jobs);
+      result = { mode, upserted: firstPage.jobs, removedIds: [], firstPage };
+    }
+
+    if (cursor) {
+      // More changes are waiting, so keep the sync time until every page has been fetched
+      await Database.updateDeltaSyncCursor(cursor);
+    } else {
+      await Database.updateDeltaSyncCursor(null);
+      // Prefer the server clock so device clock skew cannot skip changes
+      await Database.updateLastSyncTime(serverTime ?? startedAt);
+    }
+    await Database.finishSyncLog(logId, {
+      upserted: result.upserted.length,
+      removed: result.removedIds.length,
+    });
+
+    console.log(`${mode} sync finished: ${result.upserted.length} updated, ${result.removedIds.length} removed`);
+    return result;
+  } catch (error) {
+    await Database.finishSyncLog(logId, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+};